@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/*
+ * Backup store - copies of user files taken before Colorful Carbon changes them
+ *
+ * Backups live in one directory next to a manifest.json that records where each
+ * copy came from, why it was taken and which extension version took it.
+ */
+
+// setup: makeover applied | upgrade: managed block replaced | remove: configuration removed
+// restore: file replaced by a restore | legacy: adopted from an old <file>.backup-<timestamp> copy
+export type BackupReason = 'setup' | 'upgrade' | 'remove' | 'restore' | 'legacy';
+
+export interface BackupEntry {
+    // File name inside the store
+    id: string;
+    // Absolute path of the file that was backed up
+    sourcePath: string;
+    reason: BackupReason;
+    extensionVersion: string;
+    // ISO timestamp
+    createdAt: string;
+}
+
+export interface PruneOptions {
+    // Keep this many newest backups per source file
+    keep?: number;
+    // Remove backups older than this many days
+    olderThanDays?: number;
+}
+
+interface BackupManifest {
+    version: 1;
+    entries: BackupEntry[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Old backups were written next to the original as <file>.backup-<ISO timestamp with - for : and .>
+const LEGACY_SUFFIX = /^\.backup-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)$/;
+
+// Helper: Read the manifest (an unreadable manifest starts a fresh one)
+function readManifest(storeDir: string): BackupManifest {
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(storeDir, MANIFEST_FILE), 'utf8')) as BackupManifest;
+        return Array.isArray(manifest.entries) ? manifest : { version: 1, entries: [] };
+    } catch {
+        return { version: 1, entries: [] };
+    }
+}
+
+// Helper: Write the manifest atomically so a crash never leaves it half-written
+function writeManifest(storeDir: string, manifest: BackupManifest): void {
+    const manifestPath = path.join(storeDir, MANIFEST_FILE);
+    fs.writeFileSync(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2));
+    fs.renameSync(`${manifestPath}.tmp`, manifestPath);
+}
+
+// Helper: Pick a store file name that is not taken yet
+function getUniqueId(storeDir: string, createdAt: Date, sourcePath: string): string {
+    const stamp = createdAt.toISOString().replace(/[:.]/g, '-');
+    const name = path.basename(sourcePath).replace(/^\./, '');
+    let id = `${stamp}-${name}`;
+    for (let counter = 1; fs.existsSync(path.join(storeDir, id)); counter++) {
+        id = `${stamp}-${counter}-${name}`;
+    }
+    return id;
+}
+
+// Helper: Copy a file into the store and describe it (without touching the manifest)
+function storeCopy(
+    storeDir: string,
+    fromPath: string,
+    sourcePath: string,
+    reason: BackupReason,
+    extensionVersion: string,
+    createdAt: Date
+): BackupEntry {
+    const id = getUniqueId(storeDir, createdAt, sourcePath);
+    fs.copyFileSync(fromPath, path.join(storeDir, id));
+    return { id, sourcePath, reason, extensionVersion, createdAt: createdAt.toISOString() };
+}
+
+/**
+ * Get the path of a backup's copy inside the store
+ */
+export function getBackupPath(storeDir: string, entry: BackupEntry): string {
+    return path.join(storeDir, entry.id);
+}
+
+/**
+ * Back up a file into the store
+ * Returns undefined when the file does not exist (nothing to lose)
+ */
+export function createBackup(
+    storeDir: string,
+    sourcePath: string,
+    reason: BackupReason,
+    extensionVersion: string
+): BackupEntry | undefined {
+    if (!fs.existsSync(sourcePath)) {
+        return undefined;
+    }
+
+    fs.mkdirSync(storeDir, { recursive: true });
+    const entry = storeCopy(storeDir, sourcePath, sourcePath, reason, extensionVersion, new Date());
+
+    // Verify backup was created successfully before anyone relies on it
+    if (!fs.existsSync(getBackupPath(storeDir, entry))) {
+        throw new Error(`Failed to back up ${sourcePath}`);
+    }
+
+    const manifest = readManifest(storeDir);
+    manifest.entries.push(entry);
+    writeManifest(storeDir, manifest);
+    return entry;
+}
+
+/**
+ * List backups, newest first (entries whose copy was deleted by hand are skipped)
+ */
+export function listBackups(storeDir: string): BackupEntry[] {
+    return readManifest(storeDir).entries
+        .filter(entry => fs.existsSync(getBackupPath(storeDir, entry)))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Restore a backup over its source file
+ * The current file is backed up first, so a restore can itself be undone
+ */
+export function restoreBackup(storeDir: string, entry: BackupEntry, extensionVersion: string): BackupEntry | undefined {
+    const safetyBackup = createBackup(storeDir, entry.sourcePath, 'restore', extensionVersion);
+    fs.mkdirSync(path.dirname(entry.sourcePath), { recursive: true });
+    fs.copyFileSync(getBackupPath(storeDir, entry), entry.sourcePath);
+    return safetyBackup;
+}
+
+/**
+ * Delete backups beyond the newest `keep` per source file and/or older than `olderThanDays`
+ * Returns the removed entries
+ */
+export function pruneBackups(storeDir: string, options: PruneOptions, now: Date = new Date()): BackupEntry[] {
+    const manifest = readManifest(storeDir);
+    const cutoff = options.olderThanDays !== undefined
+        ? now.getTime() - options.olderThanDays * 24 * 60 * 60 * 1000
+        : undefined;
+
+    const seenPerSource = new Map<string, number>();
+    const newestFirst = [...manifest.entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const removed = newestFirst.filter(entry => {
+        const rank = (seenPerSource.get(entry.sourcePath) ?? 0) + 1;
+        seenPerSource.set(entry.sourcePath, rank);
+
+        const beyondCount = options.keep !== undefined && rank > options.keep;
+        const tooOld = cutoff !== undefined && new Date(entry.createdAt).getTime() < cutoff;
+        return beyondCount || tooOld;
+    });
+
+    removed.forEach(entry => fs.rmSync(getBackupPath(storeDir, entry), { force: true }));
+
+    const removedIds = new Set(removed.map(entry => entry.id));
+    writeManifest(storeDir, { ...manifest, entries: manifest.entries.filter(entry => !removedIds.has(entry.id)) });
+    return removed;
+}
+
+/**
+ * Move old <file>.backup-<timestamp> copies next to the given files into the store
+ * Returns the adopted entries
+ */
+export function adoptLegacyBackups(storeDir: string, sourcePaths: string[]): BackupEntry[] {
+    const adopted: BackupEntry[] = [];
+    const legacyPaths: string[] = [];
+
+    sourcePaths.forEach(sourcePath => {
+        const directory = path.dirname(sourcePath);
+        const baseName = path.basename(sourcePath);
+        if (!fs.existsSync(directory)) {
+            return;
+        }
+
+        fs.readdirSync(directory)
+            .filter(file => file.startsWith(baseName))
+            .forEach(file => {
+                const match = file.slice(baseName.length).match(LEGACY_SUFFIX);
+                if (!match) {
+                    return;
+                }
+
+                // 2024-11-21T10-15-00-000Z -> 2024-11-21T10:15:00.000Z
+                const [date, time] = match[1].split('T');
+                const [hours, minutes, seconds, millis] = time.replace('Z', '').split('-');
+                const createdAt = new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+
+                fs.mkdirSync(storeDir, { recursive: true });
+                const legacyPath = path.join(directory, file);
+                adopted.push(storeCopy(storeDir, legacyPath, sourcePath, 'legacy', 'unknown', createdAt));
+                legacyPaths.push(legacyPath);
+            });
+    });
+
+    if (adopted.length > 0) {
+        const manifest = readManifest(storeDir);
+        manifest.entries.push(...adopted);
+        writeManifest(storeDir, manifest);
+    }
+
+    // Only delete the originals once the manifest knows about their copies
+    legacyPaths.forEach(legacyPath => fs.unlinkSync(legacyPath));
+    return adopted;
+}
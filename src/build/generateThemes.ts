@@ -0,0 +1,18 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PALETTES, renderThemeFile } from '../palette';
+
+/**
+ * Regenerate themes/*.json from the palettes (runs as part of "npm run compile")
+ */
+function generateThemes(): void {
+    const themesDir = path.join(__dirname, '..', '..', 'themes');
+
+    PALETTES.forEach(palette => {
+        const themePath = path.join(themesDir, palette.themeFile);
+        fs.writeFileSync(themePath, renderThemeFile(palette));
+        console.log(`Generated ${path.relative(process.cwd(), themePath)}`);
+    });
+}
+
+generateThemes();
@@ -3,28 +3,258 @@ import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
 import { execSync } from 'child_process';
+import {
+    DependencyId,
+    ZSH_PLUGIN_DEPENDENCIES,
+    detectPackageManager,
+    getInstallCommand,
+    getPluginFileCandidates,
+    isDependencyInstalled
+} from './packageManagers';
+import {
+    BackupEntry,
+    BackupReason,
+    adoptLegacyBackups,
+    createBackup,
+    getBackupPath,
+    listBackups,
+    pruneBackups,
+    restoreBackup
+} from './backups';
+import {
+    addInclude,
+    getGlobalGitConfigPath,
+    getUserGitConfig,
+    hasInclude,
+    removeInclude,
+    renderGitConfig,
+    unsetGlobalInclude
+} from './gitInclude';
+import {
+    BlockState,
+    findManagedBlock,
+    getBlockState,
+    hasManagedBlock,
+    removeManagedBlocks,
+    renderManagedBlock,
+    upsertManagedBlock
+} from './managedBlock';
+import {
+    CustomVariantDefinition,
+    PALETTES,
+    VariantId,
+    VariantPalette,
+    buildWorkbenchColors,
+    createCustomPalette,
+    findPaletteByThemeName,
+    getPalette
+} from './palette';
+import { PREVIEW_SCHEME, PreviewContentProvider } from './setupPreview';
+import { getCustomModules, getTableNames, layerStarshipConfig, subtractStarshipConfig } from './starshipConfig';
+import {
+    DEFAULT_SMART_FETCH_POLICY,
+    FETCH_ERROR_PATTERNS,
+    FetchCacheEntry,
+    LOCK_GRACE_SECONDS,
+    MAX_JOURNALED_FAILURES,
+    STALE_LOCK_SECONDS,
+    SmartFetchPolicy,
+    forgetRepository,
+    getFetchArgs,
+    getFetchCacheDir,
+    isValidRemoteName,
+    releaseFetchLock
+} from './smartFetch';
+import { FetchScheduler } from './fetchScheduler';
+import { FETCH_CACHE_VIEW_ID, FetchCacheProvider } from './fetchCacheView';
+import { getGitPromptScript, starshipStyleToSgr } from './gitPrompt';
+import {
+    PROFILE_FILES,
+    TERMINAL_PROFILE_ID,
+    TERMINAL_PROFILE_TITLE,
+    getZdotdirShim,
+    getZshProfileOptions
+} from './terminalProfile';
+import { ZshProfileProvider } from './terminalProfileProvider';
+import {
+    DEFAULT_PROMPT_LAYOUT,
+    PromptLayout,
+    normalizePromptModules,
+    renderPromptFormat,
+    renderToolModules
+} from './promptLayout';
+import {
+    FolderDiagnosis,
+    parseStarshipTimings,
+    renderPromptReport,
+    runStarship,
+    timeBashFunction,
+    timeCustomModule
+} from './promptDoctor';
+import { SCHEME_FORMATS, SchemeFormatId, getTerminalScheme } from './terminalSchemes';
 
 // Constants
-const THEME_NAMES = {
-    DEFAULT: 'Colorful Carbon',
-    DARK_KNIGHT: 'Colorful Carbon Dark Knight'
-} as const;
 
 const DELAYS = {
     WELCOME_MESSAGE: 1000,
     SETUP_REMINDER: 2000,
-    THEME_CONFIG_WRITE: 100
+    THEME_CONFIG_WRITE: 100,
+    // The Settings UI fires a change for every edit - shell settings are applied once edits settle
+    SHELL_SETTINGS: 1000
 } as const;
 
 const CONFIG_SECTION = 'colorfulCarbon';
 
+const STATE_KEYS = {
+    APPLIED_WORKBENCH_COLORS: 'colorfulCarbon.appliedWorkbenchColors',
+    BLOCK_UPGRADE_PROMPTED: 'colorfulCarbon.blockUpgradePromptedVersion',
+    KEPT_MODIFIED_BLOCK: 'colorfulCarbon.keptModifiedBlockVersion',
+    SETTINGS_PROMPTED_BLOCK: 'colorfulCarbon.settingsPromptedBlockVersion'
+} as const;
+
+// Workbench colors a custom variant put into workbench.colorCustomizations
+interface AppliedWorkbenchColors {
+    themeName: string;
+    keys: string[];
+}
+
 const FILE_PATHS = {
     ZSHRC: '.zshrc',
+    BASHRC: '.bashrc',
+    FISH_CONFIG: path.join('.config', 'fish', 'conf.d', 'colorful-carbon.fish'),
     STARSHIP_CONFIG: path.join('.config', 'starship.toml'),
+    STARSHIP_LAYERED: path.join('.config', 'colorful-carbon', 'starship.toml'),
+    GIT_PROMPT: path.join('.config', 'colorful-carbon', 'git-prompt.sh'),
     THEME_MARKER: '.colorful-carbon-theme',
+    CONFIG_DIR: path.join('.config', 'colorful-carbon'),
+    VARIANTS_DIR: path.join('.config', 'colorful-carbon', 'variants'),
+    BACKUPS_DIR: path.join('.config', 'colorful-carbon', 'backups'),
+    GIT_COLORS: path.join('.config', 'colorful-carbon', 'gitconfig'),
+    GIT_SHADOWED: path.join('.config', 'colorful-carbon', 'git-shadowed.json'),
     INSTALL_MARKER: path.join('.config', '.colorful-carbon-installed')
 } as const;
 
+type ShellType = 'zsh' | 'bash' | 'fish';
+
+// rc file that holds the Colorful Carbon block for each supported shell
+// (fish gets its own conf.d file instead of a block inside config.fish)
+const SHELL_RC_FILES: Record<ShellType, string> = {
+    zsh: FILE_PATHS.ZSHRC,
+    bash: FILE_PATHS.BASHRC,
+    fish: FILE_PATHS.FISH_CONFIG
+};
+
+// Global VS Code settings the makeover applies (the user's color theme is never touched)
+const TERMINAL_SETTINGS: Record<string, unknown> = {
+    "terminal.integrated.fontFamily": "MesloLGS NF, SF Mono, Monaco, 'Courier New', monospace",
+    "terminal.integrated.fontSize": 13,
+    "terminal.integrated.lineHeight": 1.2,
+    "terminal.integrated.cursorStyle": "line",
+    "terminal.integrated.cursorBlinking": true
+};
+
+// A value the makeover would change, with its current value
+interface PlannedValue<T> {
+    key: string;
+    before: T | undefined;
+    after: T;
+}
+
+// A file the makeover would write, with its current content (undefined = does not exist yet)
+interface PlannedFile {
+    relativePath: string;
+    before: string | undefined;
+    after: string;
+}
+
+// Everything the makeover writes, computed up front so a preview and the setup write the same content
+interface SetupPlan {
+    shell: ShellType;
+    themeType: VariantId;
+    shellBlockState: BlockState;
+    // Set once the user reviewed the plan in diff editors - no further confirmation needed
+    reviewed: boolean;
+    files: PlannedFile[];
+    // The user's own git colors that the included color file overrides
+    shadowedGitColors: Record<string, string>;
+    settings: PlannedValue<unknown>[];
+}
+
+// Remotes the prompt and the tracking check compare the branch with
+interface RemoteSettings {
+    // Where branches are pushed unless git config says otherwise
+    primary: string;
+    // Also shown with their ahead/behind, e.g. "upstream" in a fork
+    secondary: string[];
+}
+
+// When open terminals repaint for a new variant (colorfulCarbon.terminalRefresh)
+type TerminalRefreshMode = 'never' | 'nextPrompt' | 'idle';
+
+// Where a zsh block finds the generated files (paths for use inside double quotes)
+interface GeneratedFileLocations {
+    themeMarker: string;
+    variantsDir: string;
+    starshipConfig: string;
+}
+
+const HOME_FILE_LOCATIONS: GeneratedFileLocations = {
+    themeMarker: `$HOME/${FILE_PATHS.THEME_MARKER}`,
+    variantsDir: `$HOME/${FILE_PATHS.VARIANTS_DIR}`,
+    starshipConfig: `$HOME/${FILE_PATHS.STARSHIP_LAYERED}`
+};
+
+// Files of the terminal profile live in VS Code's global storage (set on activation)
+let profileDir = '';
+
+// Environment this window passes to its terminals (set on activation)
+let terminalEnvironment: vscode.EnvironmentVariableCollection | undefined;
+
+// File holding this window's variant, which its open terminals check before each prompt (set on activation)
+let windowThemeFile = '';
+
+// Window theme files of windows without a workspace, by session (in global storage)
+const WINDOW_THEME_DIR = 'windows';
+
+// Content version of the managed shell blocks - bump whenever getZshrcContent,
+// getBashrcContent or getFishContent change so existing blocks upgrade in place
+const SHELL_BLOCK_VERSION = 10;
+
+const EXTENSION_ID = 'Sonali-Sharma.colorful-carbon';
+
+// First line of starship.toml files written before layering (the whole file was ours)
+const LEGACY_STARSHIP_HEADER = '# Custom Color-Coded Starship Theme';
+
+// Prompt format written before the layered config existed
+const LEGACY_STARSHIP_FORMAT = `format = """
+$username\\
+$hostname\\
+$directory\\
+$git_branch\\
+\${custom.git_upstream}\\
+\${custom.git_conflict}\\
+$git_status\\
+$cmd_duration\\
+$time\\
+$line_break\\
+$character"""`;
+
+const STARSHIP_HEADERS = {
+    LAYERED: '# Generated by Colorful Carbon - theme tables with your ~/.config/starship.toml layered on top.\n# Edit that file, not this one: it is rewritten on every theme change.',
+    USER: '# Your starship settings - Colorful Carbon layers them on top of its theme\n# (result: ~/.config/colorful-carbon/starship.toml)'
+} as const;
+
+// How the global gitconfig refers to FILE_PATHS.GIT_COLORS (git expands ~ in include paths)
+const GIT_INCLUDE_PATH = '~/.config/colorful-carbon/gitconfig';
+
+const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+    setup: 'Before makeover',
+    upgrade: 'Before configuration upgrade',
+    remove: 'Before removal',
+    restore: 'Before restore',
+    legacy: 'Imported from home folder'
+};
+
 // Helper: Get Colorful Carbon configuration
 function getColorfulCarbonConfig() {
     return vscode.workspace.getConfiguration(CONFIG_SECTION);
@@ -37,12 +267,36 @@ function getCurrentThemeName(): string | undefined {
 
 // Helper: Check if theme is a Colorful Carbon theme
 function isColorfulCarbonTheme(themeName: string | undefined): boolean {
-    return themeName === THEME_NAMES.DEFAULT || themeName === THEME_NAMES.DARK_KNIGHT;
+    return findPaletteByThemeName(themeName) !== undefined;
 }
 
-// Helper: Get theme type from theme name
-function getThemeType(themeName: string): 'dark-knight' | 'default' {
-    return themeName === THEME_NAMES.DARK_KNIGHT ? 'dark-knight' : 'default';
+// Helper: Get palettes for the custom variants defined in settings (ids made unique in definition order)
+function getCustomPalettes(): VariantPalette[] {
+    const definitions = getColorfulCarbonConfig().get<CustomVariantDefinition[]>('customVariants', []);
+    const takenIds = new Set<string>();
+    return definitions
+        .filter(definition => definition && typeof definition.name === 'string' && definition.name.trim() !== '')
+        .map(definition => {
+            const palette = createCustomPalette(definition, getPalette(definition.base), takenIds);
+            takenIds.add(palette.id);
+            return palette;
+        });
+}
+
+// Helper: Get palette for any variant id, built-in or custom
+function getVariantPalette(variant: VariantId): VariantPalette {
+    return getPalette(variant, getCustomPalettes());
+}
+
+// Helper: Get theme type from theme name (unknown themes use the default variant)
+// A custom variant wins when it is the active variant and built on the current theme
+function getThemeType(themeName: string | undefined): VariantId {
+    const basePalette = findPaletteByThemeName(themeName) ?? PALETTES[0];
+    const activeVariant = getColorfulCarbonConfig().get<string>('activeVariant', '');
+    const customPalette = getCustomPalettes().find(palette =>
+        palette.name === activeVariant && palette.base === basePalette.id
+    );
+    return (customPalette ?? basePalette).id;
 }
 
 // Helper: Get absolute file path in home directory
@@ -50,10 +304,62 @@ function getHomeFilePath(relativePath: string): string {
     return path.join(os.homedir(), relativePath);
 }
 
+// Helper: Get the installed extension version (recorded with every backup)
+function getExtensionVersion(): string {
+    return vscode.extensions.getExtension(EXTENSION_ID)?.packageJSON.version ?? 'unknown';
+}
+
+// Helper: Back up a file (relative to home) into the backup store
+function backupHomeFile(relativePath: string, reason: BackupReason): BackupEntry | undefined {
+    return createBackup(getHomeFilePath(FILE_PATHS.BACKUPS_DIR), getHomeFilePath(relativePath), reason, getExtensionVersion());
+}
+
+// Helper: Get the shell targeted by the makeover (setting first, then VS Code's default shell)
+function getTargetShell(): ShellType {
+    // The terminal profile is zsh only
+    if (isProfileMode()) {
+        return 'zsh';
+    }
+
+    const configured = getColorfulCarbonConfig().get<string>('shell', 'auto');
+    if (configured === 'zsh' || configured === 'bash' || configured === 'fish') {
+        return configured;
+    }
+
+    const defaultShell = path.basename(vscode.env.shell || process.env.SHELL || '');
+    if (defaultShell.startsWith('bash')) {
+        return 'bash';
+    }
+    return defaultShell.startsWith('fish') ? 'fish' : 'zsh';
+}
+
+// Helper: Get absolute rc file path for a shell
+function getShellRcPath(shell: ShellType): string {
+    return getHomeFilePath(SHELL_RC_FILES[shell]);
+}
+
+// Helper: Get dependencies the makeover needs for a shell (zsh plugins only make sense for zsh)
+function getRequiredDependencies(shell: ShellType): DependencyId[] {
+    return shell === 'zsh'
+        ? ['starship', ...ZSH_PLUGIN_DEPENDENCIES, 'fzf']
+        : ['starship', 'fzf'];
+}
+
+// Helper: Get shells whose rc file already contains the Colorful Carbon block
+function getConfiguredShells(): ShellType[] {
+    return (Object.keys(SHELL_RC_FILES) as ShellType[]).filter(shell => {
+        const rcPath = getShellRcPath(shell);
+        return fs.existsSync(rcPath) && hasManagedBlock(fs.readFileSync(rcPath, 'utf8'));
+    });
+}
+
 /**
  * Initialize theme - apply terminal settings and update starship config if using our theme
  */
-async function initializeTheme(config: vscode.WorkspaceConfiguration): Promise<void> {
+async function initializeTheme(
+    context: vscode.ExtensionContext,
+    config: vscode.WorkspaceConfiguration
+): Promise<void> {
     // Auto-apply terminal theme on activation
     if (config.get('autoApplyTerminalTheme')) {
         applyTerminalSettings();
@@ -63,6 +369,220 @@ async function initializeTheme(config: vscode.WorkspaceConfiguration): Promise<v
     const currentTheme = getCurrentThemeName();
     if (currentTheme && isColorfulCarbonTheme(currentTheme)) {
         await updateStarshipConfig(currentTheme);
+        await syncVariantWorkbenchColors(context, getVariantPalette(getThemeType(currentTheme)));
+        // Terminals revived from the last session catch up with a variant changed in the meantime
+        reloadAllTerminals();
+    }
+    updateTerminalEnvironment();
+}
+
+/**
+ * Pass this window's variant to its terminals, so windows with different variants each keep their own
+ * The shells read COLORFUL_CARBON_THEME before the marker, which holds whichever variant was applied last
+ */
+function updateTerminalEnvironment(): void {
+    if (!terminalEnvironment) {
+        return;
+    }
+    const themeName = getCurrentThemeName();
+
+    // Profile terminals get the variant from the profile itself; shells without our block have no use for it
+    if (!isColorfulCarbonTheme(themeName) || isProfileMode() || getConfiguredShells().length === 0) {
+        terminalEnvironment.clear();
+        return;
+    }
+
+    const variant = getThemeType(themeName);
+    terminalEnvironment.replace('COLORFUL_CARBON_THEME', variant);
+    terminalEnvironment.replace('COLORFUL_CARBON_THEME_FILE', windowThemeFile);
+    terminalEnvironment.replace('STARSHIP_CONFIG', path.join(getHomeFilePath(FILE_PATHS.VARIANTS_DIR), `${variant}.starship.toml`));
+}
+
+/**
+ * Write this window's variant for its open terminals (unchanged files are left alone)
+ */
+function writeWindowTheme(variant: VariantId): void {
+    if (readFileIfExists(windowThemeFile) !== variant) {
+        fs.mkdirSync(path.dirname(windowThemeFile), { recursive: true });
+        fs.writeFileSync(windowThemeFile, variant);
+    }
+}
+
+/**
+ * Delete theme files of empty windows not seen for 30 days (nothing tells us when a window closed)
+ */
+function pruneWindowThemeFiles(): void {
+    const windowsDir = path.join(profileDir, WINDOW_THEME_DIR);
+    const cutoff = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    if (!fs.existsSync(windowsDir)) {
+        return;
+    }
+    fs.readdirSync(windowsDir)
+        .map(file => path.join(windowsDir, file))
+        .filter(file => fs.statSync(file).mtimeMs < cutoff)
+        .forEach(file => fs.rmSync(file, { force: true }));
+}
+
+/**
+ * Apply a custom variant's workbench colors as colorCustomizations for its base theme
+ * Only the colors we applied last time are replaced; the user's own customizations stay
+ */
+async function syncVariantWorkbenchColors(context: vscode.ExtensionContext, palette: VariantPalette): Promise<void> {
+    const workbenchConfig = vscode.workspace.getConfiguration('workbench');
+    const customizations: Record<string, unknown> = {
+        ...(workbenchConfig.inspect<Record<string, unknown>>('colorCustomizations')?.globalValue ?? {})
+    };
+    const previous = context.globalState.get<AppliedWorkbenchColors>(STATE_KEYS.APPLIED_WORKBENCH_COLORS);
+
+    // Drop the colors applied for the previous variant
+    if (previous) {
+        const blockKey = `[${previous.themeName}]`;
+        const block = { ...(customizations[blockKey] as Record<string, string> | undefined) };
+        previous.keys.forEach(key => delete block[key]);
+        if (Object.keys(block).length > 0) {
+            customizations[blockKey] = block;
+        } else {
+            delete customizations[blockKey];
+        }
+    }
+
+    // Add the colors that differ from the base theme
+    let applied: AppliedWorkbenchColors | undefined;
+    if (palette.base) {
+        const basePalette = getPalette(palette.base);
+        const baseColors = buildWorkbenchColors(basePalette);
+        const changed = Object.entries(buildWorkbenchColors(palette)).filter(([key, value]) => baseColors[key] !== value);
+        if (changed.length > 0) {
+            const blockKey = `[${basePalette.name}]`;
+            customizations[blockKey] = {
+                ...(customizations[blockKey] as Record<string, string> | undefined),
+                ...Object.fromEntries(changed)
+            };
+            applied = { themeName: basePalette.name, keys: changed.map(([key]) => key) };
+        }
+    }
+
+    if (!previous && !applied) {
+        return; // Nothing applied before or now
+    }
+
+    await workbenchConfig.update(
+        'colorCustomizations',
+        Object.keys(customizations).length > 0 ? customizations : undefined,
+        vscode.ConfigurationTarget.Global
+    );
+    await context.globalState.update(STATE_KEYS.APPLIED_WORKBENCH_COLORS, applied);
+}
+
+/**
+ * Let the user pick a built-in or custom variant and switch editor and terminal to it
+ */
+async function selectVariant(): Promise<void> {
+    const items = [...PALETTES, ...getCustomPalettes()].map(palette => ({
+        label: palette.name,
+        description: palette.base ? `Custom variant based on ${getPalette(palette.base).name}` : 'Built-in',
+        palette
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, {
+        title: 'Colorful Carbon Variant',
+        placeHolder: 'Select a variant for the editor and terminal'
+    });
+
+    if (!choice) {
+        return;
+    }
+
+    // Custom variants render through their base theme
+    const { palette } = choice;
+    const themeName = palette.base ? getPalette(palette.base).name : palette.name;
+    await getColorfulCarbonConfig().update('activeVariant', palette.base ? palette.name : '', vscode.ConfigurationTarget.Global);
+    await vscode.workspace.getConfiguration().update('workbench.colorTheme', themeName, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Export a variant's terminal colors as schemes for terminal emulators outside VS Code
+ */
+async function exportTerminalSchemes(): Promise<void> {
+    const themeName = getCurrentThemeName();
+    const currentVariant = isColorfulCarbonTheme(themeName) ? getThemeType(themeName) : undefined;
+    const palettes = [...PALETTES, ...getCustomPalettes()]
+        .sort((a, b) => (a.id === currentVariant ? 0 : 1) - (b.id === currentVariant ? 0 : 1));
+
+    const variantChoice = await vscode.window.showQuickPick(palettes.map(palette => ({
+        label: palette.name,
+        description: palette.id === currentVariant ? 'Current variant' : palette.base ? `Custom variant based on ${getPalette(palette.base).name}` : 'Built-in',
+        palette
+    })), {
+        title: 'Export Terminal Colors (1/3)',
+        placeHolder: 'Select the variant to export'
+    });
+    if (!variantChoice) {
+        return;
+    }
+
+    const formatChoices = await vscode.window.showQuickPick(
+        (Object.keys(SCHEME_FORMATS) as SchemeFormatId[]).map(format => ({
+            label: SCHEME_FORMATS[format].label,
+            description: SCHEME_FORMATS[format].detail,
+            picked: true,
+            format
+        })), {
+            title: 'Export Terminal Colors (2/3)',
+            placeHolder: 'Select the terminals to export for',
+            canPickMany: true
+        }
+    );
+    if (!formatChoices || formatChoices.length === 0) {
+        return;
+    }
+
+    const folders = await vscode.window.showOpenDialog({
+        title: 'Export Terminal Colors (3/3)',
+        openLabel: 'Export Here',
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: vscode.Uri.file(os.homedir())
+    });
+    if (!folders || folders.length === 0) {
+        return;
+    }
+
+    const scheme = getTerminalScheme(variantChoice.palette);
+    const files = formatChoices.map(({ format }) => ({
+        filePath: path.join(folders[0].fsPath, SCHEME_FORMATS[format].fileName(scheme)),
+        content: SCHEME_FORMATS[format].render(scheme)
+    }));
+
+    // Ask before replacing files that differ from what we would write
+    const replaced = files.filter(file => {
+        const existing = readFileIfExists(file.filePath);
+        return existing !== undefined && existing !== file.content;
+    });
+    if (replaced.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            'Replace existing files?',
+            { modal: true, detail: replaced.map(file => `• ${path.basename(file.filePath)}`).join('\n') },
+            'Replace'
+        );
+        if (choice !== 'Replace') {
+            return;
+        }
+    }
+
+    try {
+        files.forEach(file => fs.writeFileSync(file.filePath, file.content));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export terminal colors: ${error}`);
+        return;
+    }
+
+    const selection = await vscode.window.showInformationMessage(
+        `🎨 Exported ${scheme.name} for ${formatChoices.map(choice => choice.label).join(', ')}.`,
+        'Open Folder'
+    );
+    if (selection === 'Open Folder') {
+        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(files[0].filePath));
     }
 }
 
@@ -108,10 +628,21 @@ async function handleWelcomeMessage(
  * Remove terminal configuration with automatic backups
  */
 async function removeTerminalConfiguration(): Promise<void> {
+    if (isProfileMode()) {
+        return removeTerminalProfile();
+    }
+
+    const configuredShells = getConfiguredShells();
     const filesToClean = [
-        '• Remove configuration from ~/.zshrc',
-        '• Delete ~/.config/starship.toml',
+        ...configuredShells.map(shell => shell === 'fish'
+            ? `• Delete ~/${SHELL_RC_FILES[shell]}`
+            : `• Remove configuration from ~/${SHELL_RC_FILES[shell]}`),
+        isStarshipLayered()
+            ? '• Delete ~/.config/colorful-carbon/starship.toml (your ~/.config/starship.toml stays)'
+            : '• Delete ~/.config/starship.toml',
         '• Remove ~/.colorful-carbon-theme',
+        '• Remove ~/.config/colorful-carbon/variants',
+        '• Unlink Colorful Carbon git colors (your own git colors come back)',
         '• Remove ~/.config/.colorful-carbon-installed',
         '• Clean ~/.git-fetch-cache'
     ];
@@ -127,7 +658,9 @@ async function removeTerminalConfiguration(): Promise<void> {
         'Cancel'
     );
 
-    if (choice !== 'Remove & Backup') return;
+    if (choice !== 'Remove & Backup') {
+        return;
+    }
 
     try {
         await vscode.window.withProgress({
@@ -135,41 +668,33 @@ async function removeTerminalConfiguration(): Promise<void> {
             title: "Removing Colorful Carbon Configuration",
             cancellable: false
         }, async (progress) => {
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-
-            progress.report({ message: 'Backing up and cleaning .zshrc...' });
-            // Backup and clean .zshrc
-            const zshrcPath = getHomeFilePath(FILE_PATHS.ZSHRC);
-            if (fs.existsSync(zshrcPath)) {
-                const content = fs.readFileSync(zshrcPath, 'utf8');
-                const backupPath = `${zshrcPath}.backup-${timestamp}`;
-                fs.writeFileSync(backupPath, content);
-
-                // Verify backup was created successfully before proceeding
-                if (!fs.existsSync(backupPath)) {
-                    throw new Error('Failed to create .zshrc backup');
+            for (const shell of configuredShells) {
+                const rcFile = SHELL_RC_FILES[shell];
+                progress.report({ message: `Backing up and cleaning ${rcFile}...` });
+                // Backup and clean shell rc file (backupHomeFile throws if the copy is missing)
+                const rcPath = getShellRcPath(shell);
+                const content = fs.readFileSync(rcPath, 'utf8');
+                backupHomeFile(rcFile, 'remove');
+
+                // fish conf.d file belongs to us entirely - delete it
+                if (shell === 'fish') {
+                    fs.unlinkSync(rcPath);
+                    continue;
                 }
 
-                // Remove Colorful Carbon section (handles all edge cases: start, middle, end of file)
-                const cleaned = content.replace(
-                    /(?:\n{1,2})?# Colorful Carbon Configuration - START[\s\S]*?# Colorful Carbon Configuration - END\n?/g,
-                    ''
-                );
-                fs.writeFileSync(zshrcPath, cleaned);
+                // Remove Colorful Carbon section
+                fs.writeFileSync(rcPath, removeManagedBlocks(content));
             }
 
             progress.report({ message: 'Removing starship configuration...' });
-            // Delete starship.toml (with backup)
+            // Delete the generated layer and git helper; the user's starship.toml only when we wrote all of it (with backup)
+            [FILE_PATHS.STARSHIP_LAYERED, FILE_PATHS.GIT_PROMPT].forEach(file => {
+                fs.rmSync(getHomeFilePath(file), { force: true });
+            });
             const starshipPath = getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG);
-            if (fs.existsSync(starshipPath)) {
-                const starshipBackupPath = `${starshipPath}.backup-${timestamp}`;
-                fs.copyFileSync(starshipPath, starshipBackupPath);
-
-                // Verify backup was created successfully before deleting original
-                if (!fs.existsSync(starshipBackupPath)) {
-                    throw new Error('Failed to create starship.toml backup');
-                }
-
+            const starshipContent = readFileIfExists(starshipPath);
+            if (starshipContent !== undefined && (!isStarshipLayered() || starshipContent.startsWith(LEGACY_STARSHIP_HEADER))) {
+                backupHomeFile(FILE_PATHS.STARSHIP_CONFIG, 'remove');
                 fs.unlinkSync(starshipPath);
             }
 
@@ -186,9 +711,33 @@ async function removeTerminalConfiguration(): Promise<void> {
                 }
             });
 
+            progress.report({ message: 'Unlinking git colors...' });
+            // Remove only our include link from the global gitconfig
+            const globalGitConfigPath = getGlobalGitConfigPath(fs.existsSync);
+            const globalGitConfig = readFileIfExists(globalGitConfigPath);
+            if (globalGitConfig !== undefined && hasInclude(globalGitConfig, GIT_INCLUDE_PATH)) {
+                createBackup(getHomeFilePath(FILE_PATHS.BACKUPS_DIR), globalGitConfigPath, 'remove', getExtensionVersion());
+                const unlinked = removeInclude(globalGitConfig, GIT_INCLUDE_PATH);
+                if (unlinked !== globalGitConfig) {
+                    fs.writeFileSync(globalGitConfigPath, unlinked);
+                } else {
+                    // User moved the line into a section of their own
+                    unsetGlobalInclude(GIT_INCLUDE_PATH);
+                }
+            }
+            [FILE_PATHS.GIT_COLORS, FILE_PATHS.GIT_SHADOWED].forEach(file => {
+                fs.rmSync(getHomeFilePath(file), { force: true });
+            });
+
+            // Remove generated variant color files (backups stay)
+            const variantsDir = getHomeFilePath(FILE_PATHS.VARIANTS_DIR);
+            if (fs.existsSync(variantsDir)) {
+                fs.rmSync(variantsDir, { recursive: true, force: true });
+            }
+
             progress.report({ message: 'Removing cache directory...' });
             // Remove cache directory (Node.js 14.14.0+ compatible)
-            const cacheDir = path.join(os.homedir(), '.git-fetch-cache');
+            const cacheDir = getFetchCacheDir(os.homedir());
             if (fs.existsSync(cacheDir)) {
                 // Use rmSync if available (Node 14.14+), otherwise use rmdirSync with recursive
                 if (typeof fs.rmSync === 'function') {
@@ -199,6 +748,7 @@ async function removeTerminalConfiguration(): Promise<void> {
                 }
             }
         });
+        updateTerminalEnvironment();
 
         const selection = await vscode.window.showInformationMessage(
             '✅ Configuration removed! Backups saved.\nRestart terminal to see changes.',
@@ -206,7 +756,7 @@ async function removeTerminalConfiguration(): Promise<void> {
         );
 
         if (selection === 'View Backups') {
-            vscode.env.openExternal(vscode.Uri.file(os.homedir()));
+            await showBackups();
         }
     } catch (error) {
         console.error('[Colorful Carbon] Error removing configuration:', error);
@@ -214,14 +764,196 @@ async function removeTerminalConfiguration(): Promise<void> {
     }
 }
 
+/**
+ * Remove the terminal profile's files and stop using it as the default profile
+ * Nothing else was written, so nothing else is touched (opening the profile again recreates it)
+ */
+async function removeTerminalProfile(): Promise<void> {
+    const defaultProfileKey = getDefaultProfileKey();
+    const config = vscode.workspace.getConfiguration();
+
+    const choice = await vscode.window.showWarningMessage(
+        `Remove the ${TERMINAL_PROFILE_TITLE} terminal profile?`,
+        {
+            modal: true,
+            detail: [
+                `• Delete ${profileDir}`,
+                `• Reset ${defaultProfileKey} if it is ${TERMINAL_PROFILE_TITLE}`,
+                '',
+                'Your dotfiles were never changed, so there is nothing to restore.'
+            ].join('\n')
+        },
+        'Remove',
+        'Cancel'
+    );
+
+    if (choice !== 'Remove') {
+        return;
+    }
+
+    fs.rmSync(profileDir, { recursive: true, force: true });
+    if (config.inspect(defaultProfileKey)?.globalValue === TERMINAL_PROFILE_TITLE) {
+        await config.update(defaultProfileKey, undefined, vscode.ConfigurationTarget.Global);
+    }
+
+    vscode.window.showInformationMessage(`✅ ${TERMINAL_PROFILE_TITLE} profile removed. Open terminals keep it until they are closed.`);
+}
+
+/**
+ * Get the backup store, adopting copies older versions left next to the originals
+ */
+function prepareBackupStore(): string {
+    const storeDir = getHomeFilePath(FILE_PATHS.BACKUPS_DIR);
+    const sources = [...Object.values(SHELL_RC_FILES), FILE_PATHS.STARSHIP_CONFIG].map(getHomeFilePath);
+    adoptLegacyBackups(storeDir, sources);
+    return storeDir;
+}
+
+/**
+ * List backups and diff or restore the selected one
+ */
+async function showBackups(): Promise<void> {
+    const storeDir = prepareBackupStore();
+    const backups = listBackups(storeDir);
+
+    if (backups.length === 0) {
+        vscode.window.showInformationMessage('No Colorful Carbon backups yet.');
+        return;
+    }
+
+    const choice = await vscode.window.showQuickPick(
+        backups.map(entry => ({
+            label: `~/${path.relative(os.homedir(), entry.sourcePath)}`,
+            description: new Date(entry.createdAt).toLocaleString(),
+            detail: `${BACKUP_REASON_LABELS[entry.reason]} · version ${entry.extensionVersion}`,
+            entry
+        })),
+        { title: 'Colorful Carbon Backups', placeHolder: 'Select a backup', matchOnDescription: true, matchOnDetail: true }
+    );
+
+    if (!choice) {
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(diff) Diff with Current File', action: 'diff' },
+        { label: '$(history) Restore This Backup', action: 'restore' },
+        { label: '$(trash) Prune Old Backups...', action: 'prune' }
+    ], { title: `${choice.label} - ${choice.description}` });
+
+    if (!action) {
+        return;
+    }
+
+    const { entry } = choice;
+    const backupUri = vscode.Uri.file(getBackupPath(storeDir, entry));
+
+    switch (action.action) {
+        case 'diff':
+            if (fs.existsSync(entry.sourcePath)) {
+                await vscode.commands.executeCommand(
+                    'vscode.diff',
+                    backupUri,
+                    vscode.Uri.file(entry.sourcePath),
+                    `${choice.label}: Backup (${choice.description}) ↔ Current`
+                );
+            } else {
+                // Original was deleted - nothing to compare with
+                await vscode.window.showTextDocument(backupUri);
+            }
+            break;
+        case 'restore': {
+            const confirm = await vscode.window.showWarningMessage(
+                `Restore ${choice.label} from ${choice.description}?`,
+                { modal: true, detail: 'The current file is backed up first, so you can undo this.' },
+                'Restore'
+            );
+            if (confirm !== 'Restore') {
+                return;
+            }
+
+            restoreBackup(storeDir, entry, getExtensionVersion());
+            vscode.window.showInformationMessage(`✅ Restored ${choice.label}. Open a new terminal to see the changes.`);
+            break;
+        }
+        case 'prune':
+            await pruneBackupsInteractive();
+            break;
+    }
+}
+
+/**
+ * Prune backups by count per file or by age
+ */
+async function pruneBackupsInteractive(): Promise<void> {
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Keep the Newest Backups', detail: 'Keep a number of backups per file and delete the rest', mode: 'count' },
+        { label: 'Delete Old Backups', detail: 'Delete backups older than a number of days', mode: 'age' }
+    ], { title: 'Prune Colorful Carbon Backups' });
+
+    if (!mode) {
+        return;
+    }
+
+    const input = await vscode.window.showInputBox({
+        title: 'Prune Colorful Carbon Backups',
+        prompt: mode.mode === 'count' ? 'Backups to keep per file' : 'Delete backups older than this many days',
+        value: mode.mode === 'count' ? '5' : '30',
+        validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a whole number'
+    });
+
+    if (input === undefined) {
+        return;
+    }
+
+    const amount = Number(input.trim());
+    const removed = pruneBackups(
+        prepareBackupStore(),
+        mode.mode === 'count' ? { keep: amount } : { olderThanDays: amount }
+    );
+
+    vscode.window.showInformationMessage(`🗑️ Pruned ${removed.length} backup${removed.length === 1 ? '' : 's'}.`);
+}
+
 /**
  * Register all extension commands
  */
-function registerCommands(context: vscode.ExtensionContext): void {
+function registerCommands(context: vscode.ExtensionContext, scheduler: FetchScheduler): void {
+    const previewProvider = new PreviewContentProvider();
+    const fetchCacheProvider = new FetchCacheProvider();
+
     const commands = [
-        vscode.commands.registerCommand('colorful-carbon.applyCompleteSetup', runCompleteSetup),
+        previewProvider,
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider),
+        fetchCacheProvider,
+        vscode.window.registerTreeDataProvider(FETCH_CACHE_VIEW_ID, fetchCacheProvider),
+        vscode.window.registerTerminalProfileProvider(TERMINAL_PROFILE_ID,
+            new ZshProfileProvider(profileDir, windowThemeFile, () => {
+                const variant = getThemeType(getCurrentThemeName());
+                writeTerminalProfile(variant);
+                writeWindowTheme(variant);
+                return variant;
+            })),
+        vscode.commands.registerCommand('colorful-carbon.fetchCache.refresh', () => fetchCacheProvider.refresh()),
+        vscode.commands.registerCommand('colorful-carbon.fetchCache.fetchNow',
+            (entry: FetchCacheEntry) => fetchRepositoryNow(scheduler, entry)),
+        vscode.commands.registerCommand('colorful-carbon.fetchCache.clearLock', (entry: FetchCacheEntry) => {
+            releaseFetchLock(entry.cacheFile);
+            fetchCacheProvider.refresh();
+        }),
+        vscode.commands.registerCommand('colorful-carbon.fetchCache.forgetRepo', (entry: FetchCacheEntry) => {
+            forgetRepository(entry.cacheFile);
+            fetchCacheProvider.refresh();
+        }),
+        vscode.commands.registerCommand('colorful-carbon.applyCompleteSetup', () => runCompleteSetup()),
+        vscode.commands.registerCommand('colorful-carbon.previewChanges', () => previewChanges(previewProvider)),
         vscode.commands.registerCommand('colorful-carbon.showSetupStatus', showSetupStatus),
-        vscode.commands.registerCommand('colorful-carbon.removeTerminalConfiguration', removeTerminalConfiguration)
+        vscode.commands.registerCommand('colorful-carbon.diagnosePrompt', () => diagnosePrompt(previewProvider)),
+        vscode.commands.registerCommand('colorful-carbon.removeTerminalConfiguration', removeTerminalConfiguration),
+        vscode.commands.registerCommand('colorful-carbon.selectVariant', selectVariant),
+        vscode.commands.registerCommand('colorful-carbon.exportTerminalSchemes', exportTerminalSchemes),
+        vscode.commands.registerCommand('colorful-carbon.showBackups', showBackups),
+        vscode.commands.registerCommand('colorful-carbon.pruneBackups', pruneBackupsInteractive)
     ];
 
     context.subscriptions.push(...commands);
@@ -231,26 +963,70 @@ function registerCommands(context: vscode.ExtensionContext): void {
  * Setup theme change listener with automatic terminal reload
  */
 function setupThemeChangeListener(context: vscode.ExtensionContext): void {
-    let lastAppliedTheme: string | undefined;
+    let lastAppliedVariant: VariantId | undefined;
+    let shellSettingsTimer: NodeJS.Timeout | undefined;
+    context.subscriptions.push({ dispose: () => clearTimeout(shellSettingsTimer) });
 
     // Use onDidChangeConfiguration instead of onDidChangeActiveColorTheme
     // This ensures config is ALREADY written when we read it
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(async (e) => {
-            // Only respond to theme changes
-            if (!e.affectsConfiguration('workbench.colorTheme')) {
+            const variantsChanged = e.affectsConfiguration('colorfulCarbon.customVariants') ||
+                e.affectsConfiguration('colorfulCarbon.activeVariant');
+            const starshipModeChanged = e.affectsConfiguration('colorfulCarbon.starshipConfigMode') ||
+                e.affectsConfiguration('colorfulCarbon.setupMode');
+            const shellSettingsChanged = e.affectsConfiguration('colorfulCarbon.smartFetch') ||
+                e.affectsConfiguration('colorfulCarbon.remotes') ||
+                e.affectsConfiguration('colorfulCarbon.terminalRefresh');
+
+            if (shellSettingsChanged) {
+                clearTimeout(shellSettingsTimer);
+                shellSettingsTimer = setTimeout(() => {
+                    refreshShellSettings(context).catch(error => {
+                        console.error('[Colorful Carbon] Error applying shell settings:', error);
+                    });
+                }, DELAYS.SHELL_SETTINGS);
+            } else if (e.affectsConfiguration('colorfulCarbon.prompt')) {
+                // Modules, layout and formats live in the starship config only
+                const themeName = getCurrentThemeName();
+                if (isColorfulCarbonTheme(themeName)) {
+                    await updateStarshipConfig(themeName!);
+                }
+            }
+
+            // Only respond to theme, variant and starship mode changes
+            if (!e.affectsConfiguration('workbench.colorTheme') && !variantsChanged && !starshipModeChanged) {
                 return;
             }
 
+            if (variantsChanged) {
+                // Colors of a custom variant may change while its id stays the same
+                lastAppliedVariant = undefined;
+                if (!isProfileMode()) {
+                    writeVariantFiles();
+                }
+            }
+
+            if (starshipModeChanged) {
+                // Starship falls back to ~/.config/starship.toml once the layered file is gone
+                lastAppliedVariant = undefined;
+                if (!isStarshipLayered() && !isProfileMode()) {
+                    fs.rmSync(getHomeFilePath(FILE_PATHS.STARSHIP_LAYERED), { force: true });
+                }
+            }
+
             const themeName = getCurrentThemeName();
 
             if (isColorfulCarbonTheme(themeName)) {
-                // Only update if theme actually changed
-                if (lastAppliedTheme !== themeName) {
-                    lastAppliedTheme = themeName;
+                const variant = getThemeType(themeName);
 
-                    // Update starship config based on theme
+                // Only update if variant actually changed
+                if (lastAppliedVariant !== variant) {
+                    lastAppliedVariant = variant;
+
+                    // Update starship config and editor colors based on variant
                     await updateStarshipConfig(themeName!);
+                    await syncVariantWorkbenchColors(context, getVariantPalette(variant));
 
                     // Small delay to ensure file system flush completes
                     await new Promise(resolve => setTimeout(resolve, 200));
@@ -259,143 +1035,137 @@ function setupThemeChangeListener(context: vscode.ExtensionContext): void {
                     reloadAllTerminals();
                 }
             } else {
-                // Clear last applied theme when switching away from Colorful Carbon themes
-                lastAppliedTheme = undefined;
+                // Clear last applied variant when switching away from Colorful Carbon themes
+                lastAppliedVariant = undefined;
             }
+
+            updateTerminalEnvironment();
         })
     );
 }
 
 /**
- * Reload all active terminals
- * Note: We don't auto-reload existing terminals to avoid interrupting user's work.
- * New terminals will automatically pick up the new theme from updated starship config.
- */
-function reloadAllTerminals(): void {
-    // Don't reload existing terminals - respects user's ongoing work
-    // The starship config is already updated, so new terminals will use new theme
-    // Users can manually close/reopen terminals when they're ready
-}
-
-
-
-/**
- * Install smart fetch feature to user's .zshrc
+ * Apply changed colorfulCarbon.smartFetch.*, colorfulCarbon.remotes.* and colorfulCarbon.terminalRefresh
+ * settings to the shell blocks and the starship module
+ * Hand-edited blocks are regenerated only after the user confirms - asked once per shell and block version
  */
-async function installSmartFetch(): Promise<void> {
-    const zshrcPath = getHomeFilePath(FILE_PATHS.ZSHRC);
-    const content = fs.readFileSync(zshrcPath, 'utf8');
+async function refreshShellSettings(context: vscode.ExtensionContext): Promise<void> {
+    const keptShells: ShellType[] = [];
+    for (const shell of refreshShellBlocks()) {
+        const promptedVersions = context.globalState.get<Partial<Record<ShellType, number>>>(STATE_KEYS.SETTINGS_PROMPTED_BLOCK, {});
+        if ((promptedVersions[shell] ?? 0) >= SHELL_BLOCK_VERSION) {
+            continue;
+        }
+        // Recorded before asking, so a change made while the dialog is open does not ask again
+        await context.globalState.update(STATE_KEYS.SETTINGS_PROMPTED_BLOCK, { ...promptedVersions, [shell]: SHELL_BLOCK_VERSION });
 
-    if (content.includes('__colorful_carbon_fetch')) {
-        return; // Already installed
+        if (await confirmOverwriteModifiedBlock(shell, 'your settings changed')) {
+            writeShellBlock(shell, 'upgrade');
+        } else {
+            keptShells.push(shell);
+        }
+    }
+    if (keptShells.length > 0) {
+        const files = keptShells.map(shell => `~/${SHELL_RC_FILES[shell]}`).join(', ');
+        vscode.window.showWarningMessage(
+            `Smart Fetch, remote and terminal refresh settings were not applied to ${files}: its Colorful Carbon section was edited by hand. Run "Apply Complete Setup" to replace it.`
+        );
     }
 
-    const smartFetchBlock = `# Colorful Carbon: Smart Git Auto-Fetch (opt-out: COLORFUL_CARBON_DISABLE_AUTOFETCH=1)
-if [[ -z "$COLORFUL_CARBON_DISABLE_AUTOFETCH" ]]; then
-  function __colorful_carbon_fetch() {
-    # LAYER 1: Quick exit if not in git repo (~5ms)
-    git rev-parse --git-dir >/dev/null 2>&1 || return
-
-    # LAYER 2: Get repo root and hash (~10ms)
-    local repo_root=$(git rev-parse --show-toplevel 2>/dev/null)
-    [[ -z "$repo_root" ]] && return
-
-    local cache_dir="$HOME/.git-fetch-cache"
-    local hash=$(echo -n "$repo_root" | shasum -a 256 2>/dev/null | cut -d' ' -f1)
-    [[ -z "$hash" ]] && return
-
-    local cache_file="$cache_dir/$hash"
-
-    # LAYER 3: Quick cache age check (~5ms) - Exit early if fresh
-    local last_fetch=0
-    [[ -f "$cache_file" ]] && last_fetch=$(cat "$cache_file" 2>/dev/null || echo 0)
-    local now=$(date +%s)
-    local age=$((now - last_fetch))
-
-    [[ $age -lt 900 ]] && return  # Cache fresh, exit early
-
-    # LAYER 4: Only now do expensive operations
-    local lock_file="$cache_file.lock"
-    [[ -f "$lock_file" ]] && return  # Already fetching
-
-    mkdir -p "$cache_dir" 2>/dev/null || return
-    find "$cache_dir" -type f -not -name "*.lock" -mtime +30 -delete 2>/dev/null || true
-
-    touch "$lock_file" 2>/dev/null || return
-    (
-      if git fetch --quiet --all --prune --tags 2>/dev/null; then
-        echo $now > "$cache_file"
-      fi
-      rm -f "$lock_file"
-    ) &!
-  }
-
-  if [[ ! " \${chpwd_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
-    chpwd_functions+=(__colorful_carbon_fetch)
-  fi
-  if [[ ! " \${preexec_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
-    preexec_functions+=(__colorful_carbon_fetch)
-  fi
-  __colorful_carbon_fetch
-fi
-
-`;
+    // The "(#synced)" window and the remotes also live in the git prompt helper (and the profile's block)
+    const themeName = getCurrentThemeName();
+    if (isColorfulCarbonTheme(themeName)) {
+        await updateStarshipConfig(themeName!);
+    }
+}
 
-    const updatedContent = content.replace(
-        /# Initialize Starship prompt/,
-        `${smartFetchBlock}# Initialize Starship prompt`
+/**
+ * Regenerate the layered starship config whenever the user edits ~/.config/starship.toml
+ */
+function setupStarshipLayerWatcher(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.join(os.homedir(), '.config')), 'starship.toml')
     );
 
-    fs.writeFileSync(zshrcPath, updatedContent);
+    const refreshLayer = async () => {
+        const themeName = getCurrentThemeName();
+        // Only a layer we already generated is kept up to date - setup creates the first one
+        if (!isStarshipLayered() || !isColorfulCarbonTheme(themeName) ||
+            (!isProfileMode() && !fs.existsSync(getHomeFilePath(FILE_PATHS.STARSHIP_LAYERED)))) {
+            return;
+        }
+        await updateStarshipConfig(themeName!);
+    };
+
+    watcher.onDidChange(refreshLayer);
+    watcher.onDidCreate(refreshLayer);
+    watcher.onDidDelete(refreshLayer);
+    context.subscriptions.push(watcher);
 }
 
 /**
- * Ensure existing users get latest terminal configuration updates
- * Auto-upgrades if autoApplyTerminalTheme is enabled, shows notification otherwise
+ * Reload all active terminals - in place, without restarting their shells
+ * Each shell checks this window's theme file before a prompt (colorfulCarbon.terminalRefresh) and
+ * switches its starship config, git colors and highlight styles when the variant changed
  */
-async function ensureLatestTerminalConfig(context: vscode.ExtensionContext): Promise<void> {
-    const zshrcPath = getHomeFilePath(FILE_PATHS.ZSHRC);
-
-    if (!fs.existsSync(zshrcPath)) {
-        return; // User hasn't set up terminal yet
+function reloadAllTerminals(): void {
+    const themeName = getCurrentThemeName();
+    if (isColorfulCarbonTheme(themeName)) {
+        writeWindowTheme(getThemeType(themeName));
     }
+}
+
 
-    const content = fs.readFileSync(zshrcPath, 'utf8');
 
-    // Only proceed if user has already opted-in
-    if (!content.includes('# Colorful Carbon Configuration - START')) {
+/**
+ * Ensure existing users get latest terminal configuration updates
+ * Outdated blocks upgrade in place - silently if autoApplyTerminalTheme is enabled, after a prompt otherwise
+ * Hand-edited blocks are only replaced after the user confirms
+ * Prompts are not awaited, so activation never waits on the user
+ */
+async function ensureLatestTerminalConfig(context: vscode.ExtensionContext): Promise<void> {
+    // Only proceed if user has already opted-in (profile mode never touches rc files)
+    const configuredShells = getConfiguredShells();
+    if (configuredShells.length === 0 || isProfileMode()) {
         return; // User never ran setup - respect their choice
     }
 
     const config = getColorfulCarbonConfig();
     const autoApply = config.get('autoApplyTerminalTheme', true);
+    const blockStates = configuredShells.map(shell => {
+        const content = fs.readFileSync(getShellRcPath(shell), 'utf8');
+        return { shell, content, state: getBlockState(content, SHELL_BLOCK_VERSION) };
+    });
+
+    const outdatedShells = blockStates.filter(({ state }) => state === 'outdated').map(({ shell }) => shell);
+    // Edited blocks at the shipped version have no update to offer
+    const modifiedShells = blockStates
+        .filter(({ content, state }) => state === 'modified' && findManagedBlock(content)!.version < SHELL_BLOCK_VERSION)
+        .map(({ shell }) => shell);
 
-    // Check if smart fetch is missing (new feature in v1.1)
-    if (!content.includes('__colorful_carbon_fetch')) {
+    if (outdatedShells.length > 0) {
         if (autoApply) {
             // User has auto-apply enabled - upgrade silently
-            await installSmartFetch();
+            outdatedShells.forEach(shell => writeShellBlock(shell, 'upgrade'));
         } else {
-            // User prefers manual control - show notification
-            const hasPrompted = context.globalState.get('smartFetchUpgradePrompted', false);
-
-            if (!hasPrompted) {
-                const choice = await vscode.window.showInformationMessage(
-                    '🎯 New: Smart Git Fetch - Keeps terminal git status accurate. Enable?',
-                    'Enable',
-                    'Not Now'
-                );
-
-                await context.globalState.update('smartFetchUpgradePrompted', true);
+            // User prefers manual control - ask once per block version
+            const promptedVersion = context.globalState.get<number>(STATE_KEYS.BLOCK_UPGRADE_PROMPTED, 0);
 
-                if (choice === 'Enable') {
-                    await installSmartFetch();
-                    vscode.window.showInformationMessage('✅ Smart Git Fetch enabled! Open a new terminal to see it in action.');
-                }
+            if (promptedVersion < SHELL_BLOCK_VERSION) {
+                offerBlockUpgrade(context, outdatedShells).catch(error =>
+                    console.error('[Colorful Carbon] Error offering block upgrade:', error));
             }
         }
     }
 
+    if (modifiedShells.length > 0) {
+        offerModifiedBlockUpgrades(context, modifiedShells).catch(error =>
+            console.error('[Colorful Carbon] Error offering modified block upgrade:', error));
+    }
+
+    // Settings may have changed while the extension was not running
+    refreshShellBlocks();
+
     // Always update starship config to latest (idempotent)
     const currentTheme = getCurrentThemeName();
     if (currentTheme && isColorfulCarbonTheme(currentTheme)) {
@@ -403,6 +1173,83 @@ async function ensureLatestTerminalConfig(context: vscode.ExtensionContext): Pro
     }
 }
 
+/**
+ * Ask once per block version whether to upgrade outdated blocks
+ */
+async function offerBlockUpgrade(context: vscode.ExtensionContext, outdatedShells: ShellType[]): Promise<void> {
+    const choice = await vscode.window.showInformationMessage(
+        '🎯 Colorful Carbon terminal configuration has updates. Upgrade now?',
+        'Upgrade',
+        'Not Now'
+    );
+
+    await context.globalState.update(STATE_KEYS.BLOCK_UPGRADE_PROMPTED, SHELL_BLOCK_VERSION);
+
+    if (choice === 'Upgrade') {
+        outdatedShells.forEach(shell => writeShellBlock(shell, 'upgrade'));
+        vscode.window.showInformationMessage('✅ Terminal configuration upgraded! Open a new terminal to see it in action.');
+    }
+}
+
+/**
+ * Offer the new block version for each hand-edited block, one shell at a time
+ */
+async function offerModifiedBlockUpgrades(context: vscode.ExtensionContext, modifiedShells: ShellType[]): Promise<void> {
+    for (const shell of modifiedShells) {
+        // Don't ask again for a version the user already kept their edits for
+        const keptVersions = context.globalState.get<Partial<Record<ShellType, number>>>(STATE_KEYS.KEPT_MODIFIED_BLOCK, {});
+        if ((keptVersions[shell] ?? 0) >= SHELL_BLOCK_VERSION) {
+            continue;
+        }
+
+        if (await confirmOverwriteModifiedBlock(shell)) {
+            writeShellBlock(shell, 'upgrade');
+        } else {
+            await context.globalState.update(STATE_KEYS.KEPT_MODIFIED_BLOCK, { ...keptVersions, [shell]: SHELL_BLOCK_VERSION });
+        }
+    }
+}
+
+/**
+ * Rewrite current blocks whose content no longer matches the settings they were generated from
+ * Only pristine blocks are rewritten - hand-edited ones are left alone and their shells returned
+ */
+function refreshShellBlocks(): ShellType[] {
+    const editedShells: ShellType[] = [];
+    if (isProfileMode()) {
+        return editedShells;
+    }
+
+    getConfiguredShells().forEach(shell => {
+        const existingRc = fs.readFileSync(getShellRcPath(shell), 'utf8');
+        const state = getBlockState(existingRc, SHELL_BLOCK_VERSION);
+
+        if (state === 'modified') {
+            editedShells.push(shell);
+        } else if (state === 'current' && renderShellRc(shell, existingRc) !== existingRc) {
+            writeShellBlock(shell);
+        }
+    });
+
+    return editedShells;
+}
+
+/**
+ * Ask before replacing a block the user edited by hand
+ */
+async function confirmOverwriteModifiedBlock(shell: ShellType, reason = 'an update is available'): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `Your Colorful Carbon section in ~/${SHELL_RC_FILES[shell]} was edited by hand and ${reason}.`,
+        {
+            modal: true,
+            detail: 'Overwriting replaces your edits with the new version. A backup is created first.'
+        },
+        'Overwrite',
+        'Keep My Edits'
+    );
+    return choice === 'Overwrite';
+}
+
 /**
  * Setup smart status bar with menu-based user control
  */
@@ -492,6 +1339,11 @@ async function setupSmartStatusBar(context: vscode.ExtensionContext): Promise<vo
                         detail: 'Automatically install and configure everything',
                         action: 'install'
                     },
+                    {
+                        label: '$(diff) Preview Changes',
+                        detail: 'See every file and setting the makeover would change first',
+                        action: 'preview'
+                    },
                     {
                         label: '$(info) View Detailed Status',
                         detail: 'See what\'s installed and what\'s missing',
@@ -509,13 +1361,19 @@ async function setupSmartStatusBar(context: vscode.ExtensionContext): Promise<vo
                     placeHolder: `Missing: ${missingDeps.join(', ')}`
                 });
 
-                if (!choice) return;
+                if (!choice) {
+                    return;
+                }
 
                 switch (choice.action) {
                     case 'install':
                         await runCompleteSetup();
                         await updateStatusBar();
                         break;
+                    case 'preview':
+                        await vscode.commands.executeCommand('colorful-carbon.previewChanges');
+                        await updateStatusBar();
+                        break;
                     case 'status':
                         await showSetupStatus();
                         break;
@@ -541,8 +1399,24 @@ async function setupSmartStatusBar(context: vscode.ExtensionContext): Promise<vo
  * Extension activation - initializes theme, git tracking, and UI components
  */
 export async function activate(context: vscode.ExtensionContext) {
+    profileDir = context.globalStorageUri.fsPath;
+    terminalEnvironment = context.environmentVariableCollection;
+    // Workspace storage outlives a window reload, so revived terminals keep following the window
+    windowThemeFile = context.storageUri
+        ? path.join(context.storageUri.fsPath, 'theme')
+        : path.join(profileDir, WINDOW_THEME_DIR, `${vscode.env.sessionId}.theme`);
+    pruneWindowThemeFiles();
+
     // Setup theme change listener FIRST (most critical for theme switching)
     setupThemeChangeListener(context);
+    setupStarshipLayerWatcher(context);
+
+    // Fetch workspace repositories in the background, alongside the shells
+    const scheduler = new FetchScheduler(getSmartFetchPolicy, isWorkspaceFetchEnabled);
+    context.subscriptions.push(scheduler);
+
+    // Register all commands before anything can wait on the user
+    registerCommands(context, scheduler);
 
     const config = getColorfulCarbonConfig();
 
@@ -550,16 +1424,45 @@ export async function activate(context: vscode.ExtensionContext) {
     await ensureLatestTerminalConfig(context);
 
     // Initialize terminal theme
-    await initializeTheme(config);
+    await initializeTheme(context, config);
 
     // Show welcome message if needed
     await handleWelcomeMessage(context, config);
 
     // Setup smart status bar with user control
     await setupSmartStatusBar(context);
+}
+
+/**
+ * Fetch a repository from the cache explorer, whatever its age
+ */
+async function fetchRepositoryNow(scheduler: FetchScheduler, entry: FetchCacheEntry): Promise<void> {
+    if (!entry.repoRoot) {
+        return;
+    }
+
+    const name = path.basename(entry.repoRoot);
+    try {
+        const fetched = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Fetching ${name}...` },
+            () => scheduler.fetchNow(entry.repoRoot!)
+        );
+        if (!fetched) {
+            vscode.window.showWarningMessage(`${name} is already being fetched. Use "Clear Lock" if that fetch is stuck.`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`❌ Fetching ${name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+}
 
-    // Register all commands
-    registerCommands(context);
+/**
+ * Check if the extension fetches workspace repositories itself
+ * Only after setup, and never when the shells were told not to fetch
+ */
+function isWorkspaceFetchEnabled(): boolean {
+    return getColorfulCarbonConfig().get('smartFetch.workspaceRepositories', true) &&
+        !process.env.COLORFUL_CARBON_DISABLE_AUTOFETCH &&
+        (getConfiguredShells().length > 0 || (isProfileMode() && fs.existsSync(getProfileFilePath(PROFILE_FILES.BLOCK))));
 }
 
 /**
@@ -569,15 +1472,7 @@ function applyTerminalSettings(): void {
     const config = vscode.workspace.getConfiguration();
 
     // Apply terminal settings (don't override user's theme choice!)
-    const terminalSettings = {
-        "terminal.integrated.fontFamily": "MesloLGS NF, SF Mono, Monaco, 'Courier New', monospace",
-        "terminal.integrated.fontSize": 13,
-        "terminal.integrated.lineHeight": 1.2,
-        "terminal.integrated.cursorStyle": "line",
-        "terminal.integrated.cursorBlinking": true
-    };
-
-    Object.entries(terminalSettings).forEach(([key, value]) => {
+    Object.entries(TERMINAL_SETTINGS).forEach(([key, value]) => {
         config.update(key, value, vscode.ConfigurationTarget.Global);
     });
 }
@@ -621,45 +1516,84 @@ async function showWelcomeMessage(context: vscode.ExtensionContext): Promise<voi
 /**
  * Check for missing terminal dependencies
  */
-async function checkMissingDependencies(): Promise<string[]> {
-    const missing: string[] = [];
+async function checkMissingDependencies(): Promise<DependencyId[]> {
+    // Commands are looked up in PATH, plugins by their files (works for any package manager)
+    return getRequiredDependencies(getTargetShell()).filter(dep => !isDependencyInstalled(dep));
+}
 
-    // Check commands that should be in PATH
-    const commands = ['starship', 'fzf'];
-    commands.forEach(cmd => {
-        try {
-            execSync(`which ${cmd}`, { stdio: 'ignore' });
-        } catch {
-            missing.push(cmd);
-        }
-    });
+/**
+ * Run complete setup with progress notification
+ * A plan from the preview is written as-is; otherwise one is computed now
+ */
+async function runCompleteSetup(plan?: SetupPlan): Promise<void> {
+    if (isProfileMode()) {
+        return runProfileSetup();
+    }
 
-    // Check brew packages (more reliable for plugins)
-    const brewPackages = ['zsh-autosuggestions', 'zsh-syntax-highlighting'];
-    brewPackages.forEach(pkg => {
-        try {
-            execSync(`brew list ${pkg}`, { stdio: 'ignore' });
-        } catch {
-            missing.push(pkg);
+    const setupPlan = plan ?? buildSetupPlan();
+    const completed = await runSetupSteps([
+        { message: 'Checking system requirements...', action: checkRequirements },
+        { message: 'Installing terminal dependencies...', action: installTerminalDependencies },
+        { message: 'Applying terminal configuration...', action: () => applyTerminalConfiguration(setupPlan) },
+        { message: 'Setting up Git colors...', action: () => recordShadowedGitColors(setupPlan.shadowedGitColors) },
+        { message: 'Finalizing setup...', action: () => finalizeSetup(setupPlan) }
+    ]);
+    if (!completed) {
+        return;
+    }
+    updateTerminalEnvironment();
+
+    vscode.window.showInformationMessage(
+        '✨ Colorful Carbon makeover complete! Please restart your terminal for all changes to take effect.',
+        'Restart VS Code'
+    ).then(selection => {
+        if (selection === 'Restart VS Code') {
+            vscode.commands.executeCommand('workbench.action.reloadWindow');
         }
     });
-
-    return missing;
 }
 
 /**
- * Run complete setup with progress notification
+ * Set up the terminal profile - dependencies, profile files and VS Code settings, but no dotfiles
  */
-async function runCompleteSetup(): Promise<void> {
-    const steps = [
+async function runProfileSetup(): Promise<void> {
+    const themeType = getThemeType(getCurrentThemeName());
+    const completed = await runSetupSteps([
         { message: 'Checking system requirements...', action: checkRequirements },
         { message: 'Installing terminal dependencies...', action: installTerminalDependencies },
-        { message: 'Applying terminal configuration...', action: applyTerminalConfiguration },
-        { message: 'Setting up Git colors...', action: setupGitColors },
-        { message: 'Finalizing setup...', action: finalizeSetup }
-    ];
+        { message: 'Writing the terminal profile...', action: async () => {
+            writeTerminalProfile(themeType);
+            writeWindowTheme(themeType);
+        } },
+        { message: 'Finalizing setup...', action: async () => applyTerminalSettings() }
+    ]);
+    if (!completed) {
+        return;
+    }
 
-    await vscode.window.withProgress({
+    const selection = await vscode.window.showInformationMessage(
+        `✨ The ${TERMINAL_PROFILE_TITLE} terminal profile is ready - none of your dotfiles were changed.`,
+        'Open Terminal',
+        'Make Default Profile'
+    );
+    if (selection === 'Open Terminal') {
+        vscode.window.createTerminal(getZshProfileOptions(profileDir, getThemeType(getCurrentThemeName()), windowThemeFile)).show();
+    } else if (selection === 'Make Default Profile') {
+        await vscode.workspace.getConfiguration().update(getDefaultProfileKey(), TERMINAL_PROFILE_TITLE, vscode.ConfigurationTarget.Global);
+    }
+}
+
+// Helper: Get the default terminal profile setting of this platform
+function getDefaultProfileKey(): string {
+    return `terminal.integrated.defaultProfile.${os.platform() === 'darwin' ? 'osx' : 'linux'}`;
+}
+
+/**
+ * Run setup steps with progress notification, stopping at the first failure
+ * Resolves with whether every step completed
+ */
+async function runSetupSteps(steps: { message: string; action: () => Promise<void> }[]): Promise<boolean> {
+    return vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: "Applying Colorful Carbon Makeover",
         cancellable: false
@@ -676,23 +1610,15 @@ async function runCompleteSetup(): Promise<void> {
             } catch (error) {
                 const errorMsg = error instanceof Error ? error.message : 'Unknown error';
                 vscode.window.showErrorMessage(`Setup failed: ${step.message}\n${errorMsg}`);
-                return;
+                return false;
             }
         }
-    });
-
-    vscode.window.showInformationMessage(
-        '✨ Colorful Carbon makeover complete! Please restart your terminal for all changes to take effect.',
-        'Restart VS Code'
-    ).then(selection => {
-        if (selection === 'Restart VS Code') {
-            vscode.commands.executeCommand('workbench.action.reloadWindow');
-        }
+        return true;
     });
 }
 
 /**
- * Check system requirements (platform and zsh)
+ * Check system requirements (platform and target shell)
  */
 async function checkRequirements(): Promise<void> {
     const platform = os.platform();
@@ -700,22 +1626,30 @@ async function checkRequirements(): Promise<void> {
         throw new Error('This extension currently supports macOS and Linux only');
     }
 
-    // Check for zsh
+    // Check for the target shell
+    const shell = getTargetShell();
     try {
-        execSync('which zsh', { stdio: 'ignore' });
+        execSync(`which ${shell}`, { stdio: 'ignore' });
     } catch {
-        throw new Error('Zsh is not installed. Please install zsh first.');
+        throw new Error(`${shell} is not installed. Please install ${shell} first.`);
     }
 }
 
 /**
- * Install terminal dependencies via Homebrew
+ * Install terminal dependencies via the system package manager
  */
 async function installTerminalDependencies(): Promise<void> {
-    try {
-        // Check if Homebrew is installed
-        execSync('which brew', { stdio: 'ignore' });
-    } catch {
+    const missingDeps = await checkMissingDependencies();
+    if (missingDeps.length === 0) {
+        return; // Everything already installed
+    }
+
+    const packageManager = detectPackageManager();
+    if (!packageManager) {
+        if (os.platform() !== 'darwin') {
+            throw new Error('No supported package manager found (apt, dnf, pacman, zypper, apk or brew)');
+        }
+
         const install = await vscode.window.showWarningMessage(
             'Homebrew is not installed. Would you like to install it?',
             'Yes', 'No'
@@ -735,19 +1669,14 @@ async function installTerminalDependencies(): Promise<void> {
         throw new Error('Please install Homebrew first');
     }
 
-    // Install required packages
-    const packages = ['starship', 'zsh-autosuggestions', 'zsh-syntax-highlighting', 'fzf'];
+    // Install missing packages
     const terminal = vscode.window.createTerminal({
         name: 'Colorful Carbon Setup',
-        message: 'Installing terminal dependencies...'
+        message: `Installing terminal dependencies with ${packageManager.label}...`
     });
 
-    // Create a single command to check and install all packages
-    const installCommand = packages
-        .map(pkg => `brew list ${pkg} &>/dev/null || brew install ${pkg}`)
-        .join(' && ');
-
-    terminal.sendText(installCommand);
+    // Create a single command to install all missing packages
+    terminal.sendText(getInstallCommand(packageManager, missingDeps));
     terminal.show();
 
     // Give user feedback
@@ -755,86 +1684,390 @@ async function installTerminalDependencies(): Promise<void> {
 }
 
 /**
- * Apply terminal configuration - backup existing configs and write new ones
+ * Compute everything the makeover would write without touching anything
  */
-async function applyTerminalConfiguration(): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+function buildSetupPlan(): SetupPlan {
+    const shell = getTargetShell();
+    const themeType = getThemeType(getCurrentThemeName());
 
-    // Backup existing configs
-    backupConfigs(timestamp);
+    const rcBefore = readFileIfExists(getShellRcPath(shell));
+    const shellBlockState = getBlockState(rcBefore ?? '', SHELL_BLOCK_VERSION);
+    const rcAfter = shellBlockState === 'current' ? rcBefore ?? '' : renderShellRc(shell, rcBefore ?? '');
+
+    const config = vscode.workspace.getConfiguration();
+    const globalGitConfigPath = getGlobalGitConfigPath(fs.existsSync);
+    const globalGitConfig = readFileIfExists(globalGitConfigPath);
+
+    return {
+        shell,
+        themeType,
+        shellBlockState,
+        reviewed: false,
+        files: [
+            { relativePath: SHELL_RC_FILES[shell], before: rcBefore, after: rcAfter },
+            ...getStarshipFiles(themeType),
+            {
+                relativePath: FILE_PATHS.GIT_COLORS,
+                before: readFileIfExists(getHomeFilePath(FILE_PATHS.GIT_COLORS)),
+                after: getGitColorsFileContent(themeType)
+            },
+            {
+                relativePath: path.relative(os.homedir(), globalGitConfigPath),
+                before: globalGitConfig,
+                after: addInclude(globalGitConfig ?? '', GIT_INCLUDE_PATH)
+            }
+        ],
+        shadowedGitColors: getShadowedGitColors(themeType),
+        settings: Object.entries(TERMINAL_SETTINGS).map(([key, value]) => ({
+            key,
+            before: config.inspect(key)?.globalValue,
+            after: value
+        }))
+    };
+}
+
+/**
+ * Show the makeover as diff editors and apply exactly that plan if the user agrees
+ */
+async function previewChanges(previewProvider: PreviewContentProvider): Promise<void> {
+    if (isProfileMode()) {
+        return previewTerminalProfile(previewProvider);
+    }
+
+    const plan = buildSetupPlan();
+
+    const renderSettings = (side: 'before' | 'after') => JSON.stringify(
+        Object.fromEntries(plan.settings.filter(setting => setting[side] !== undefined).map(setting => [setting.key, setting[side]])),
+        null,
+        4
+    ) + '\n';
+
+    await previewProvider.showDiffs([
+        ...plan.files.map(file => ({
+            title: `~/${file.relativePath} (Colorful Carbon Preview)`,
+            name: path.basename(file.relativePath),
+            before: file.before ?? '',
+            after: file.after
+        })),
+        {
+            title: 'Global VS Code Settings (Colorful Carbon Preview)',
+            name: 'settings.json',
+            before: renderSettings('before'),
+            after: renderSettings('after')
+        }
+    ]);
+
+    const overwritten = plan.settings.filter(setting =>
+        setting.before !== undefined && JSON.stringify(setting.before) !== JSON.stringify(setting.after)
+    );
+    const shadowed = Object.keys(plan.shadowedGitColors);
+
+    const choice = await vscode.window.showInformationMessage(
+        'Review the Colorful Carbon changes in the diff editors. Missing tools are installed in a terminal when you apply.' +
+            (overwritten.length > 0 ? ` Overwrites: ${overwritten.map(setting => setting.key).join(', ')}.` : '') +
+            (shadowed.length > 0 ? ` Shadows your git colors until removal: ${shadowed.join(', ')}.` : ''),
+        'Apply These Changes',
+        'Cancel'
+    );
+
+    if (choice === 'Apply These Changes') {
+        await runCompleteSetup({ ...plan, reviewed: true });
+    }
+}
+
+/**
+ * Show the files of the terminal profile as diff editors and set it up if the user agrees
+ */
+async function previewTerminalProfile(previewProvider: PreviewContentProvider): Promise<void> {
+    await previewProvider.showDiffs(getTerminalProfileFiles(getThemeType(getCurrentThemeName())).map(file => ({
+        title: `${file.relativePath} (Colorful Carbon Profile Preview)`,
+        name: path.basename(file.relativePath),
+        before: file.before ?? '',
+        after: file.after
+    })));
+
+    const choice = await vscode.window.showInformationMessage(
+        `Review the ${TERMINAL_PROFILE_TITLE} profile in the diff editors. It lives in ${profileDir} - nothing in your home folder is written. Missing tools are installed in a terminal when you apply.`,
+        'Apply These Changes',
+        'Cancel'
+    );
 
-    // Ensure .config directory exists
-    const configDir = getHomeFilePath('.config');
-    if (!fs.existsSync(configDir)) {
-        fs.mkdirSync(configDir, { recursive: true });
+    if (choice === 'Apply These Changes') {
+        await runProfileSetup();
+    }
+}
+
+/**
+ * Apply terminal configuration - backup existing configs and write the planned files
+ */
+async function applyTerminalConfiguration(plan: SetupPlan): Promise<void> {
+    // Never write over changes made after the plan was computed
+    const changedFiles = plan.files.filter(file => readFileIfExists(getHomeFilePath(file.relativePath)) !== file.before);
+    if (changedFiles.length > 0) {
+        throw new Error(`Changed since the preview: ${changedFiles.map(file => `~/${file.relativePath}`).join(', ')}. Preview again.`);
     }
 
-    // Append zshrc configuration if not already present
-    appendZshrcConfig();
+    // Hand-edited blocks need a confirmation unless the user already saw the diff
+    const keepShellBlock = plan.shellBlockState === 'modified' && !plan.reviewed &&
+        !(await confirmOverwriteModifiedBlock(plan.shell));
 
-    // Ensure smart fetch is installed (even if user clicked "Not Now" before)
-    await installSmartFetch();
+    // Backup existing configs
+    backupConfigs(plan.files.map(file => file.relativePath));
+
+    plan.files
+        .filter(file => !(keepShellBlock && file.relativePath === SHELL_RC_FILES[plan.shell]))
+        .forEach(file => {
+            const filePath = getHomeFilePath(file.relativePath);
+            // Ensure parent directory exists (.config, fish conf.d)
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, file.after);
+        });
 
-    // Write starship config and theme marker based on current theme
-    writeStarshipConfig();
+    // Theme marker and variant files for the planned theme
+    writeThemeMarker(plan.themeType);
 }
 
 /**
  * Backup configuration files before modification
  */
-function backupConfigs(timestamp: string): void {
-    const configs = [FILE_PATHS.ZSHRC, FILE_PATHS.STARSHIP_CONFIG];
+function backupConfigs(configs: string[]): void {
+    configs.forEach(config => backupHomeFile(config, 'setup'));
+}
 
-    configs.forEach(config => {
-        const configPath = getHomeFilePath(config);
-        if (fs.existsSync(configPath)) {
-            const backupPath = `${configPath}.backup-${timestamp}`;
-            fs.copyFileSync(configPath, backupPath);
-        }
+/**
+ * Get the body of the managed block for a shell
+ */
+function getShellBlockContent(shell: ShellType): string {
+    switch (shell) {
+        case 'fish':
+            return getFishContent();
+        case 'bash':
+            return getBashrcContent();
+        default:
+            return getZshrcContent();
+    }
+}
+
+/**
+ * Write the current managed block into the shell's rc file, replacing any existing block in place
+ * Pass a reason to back up the rc file first
+ */
+function writeShellBlock(shell: ShellType, backupReason?: BackupReason): void {
+    const rcPath = getShellRcPath(shell);
+    const existingRc = fs.existsSync(rcPath) ? fs.readFileSync(rcPath, 'utf8') : '';
+
+    if (backupReason) {
+        backupHomeFile(SHELL_RC_FILES[shell], backupReason);
+    }
+
+    // fish conf.d file is ours alone, so its directory may not exist yet
+    fs.mkdirSync(path.dirname(rcPath), { recursive: true });
+    fs.writeFileSync(rcPath, renderShellRc(shell, existingRc));
+}
+
+/**
+ * Get the rc file content with the current managed block in place of any existing one
+ */
+function renderShellRc(shell: ShellType, existingRc: string): string {
+    const block = renderManagedBlock(getShellBlockContent(shell), SHELL_BLOCK_VERSION);
+    return upsertManagedBlock(existingRc, block);
+}
+
+// Helper: Read a file, undefined if it does not exist
+function readFileIfExists(filePath: string): string | undefined {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+}
+
+// Helper: Check if the makeover lives in the terminal profile instead of dotfiles
+function isProfileMode(): boolean {
+    return getColorfulCarbonConfig().get<string>('setupMode', 'dotfiles') === 'profile';
+}
+
+// Helper: Get absolute path of a file in the terminal profile directory
+function getProfileFilePath(relativePath: string): string {
+    return path.join(profileDir, relativePath);
+}
+
+// Helper: Check if the user's starship.toml is layered on top of a generated config
+function isStarshipLayered(): boolean {
+    return getColorfulCarbonConfig().get<string>('starshipConfigMode', 'layered') === 'layered';
+}
+
+/**
+ * Get the starship files a theme change writes
+ * Layered: the generated config with the user's file on top, plus a one-time cleanup of a
+ * starship.toml written by older versions. Replace: the user's starship.toml itself.
+ * Both modes get the git prompt helper the config calls.
+ */
+function getStarshipFiles(themeType: VariantId): PlannedFile[] {
+    const userBefore = readFileIfExists(getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG));
+    const generated = getStarshipContent(themeType);
+    const gitPrompt: PlannedFile = {
+        relativePath: FILE_PATHS.GIT_PROMPT,
+        before: readFileIfExists(getHomeFilePath(FILE_PATHS.GIT_PROMPT)),
+        after: getGitPromptFileContent()
+    };
+
+    if (!isStarshipLayered()) {
+        return [gitPrompt, { relativePath: FILE_PATHS.STARSHIP_CONFIG, before: userBefore, after: generated }];
+    }
+
+    const files: PlannedFile[] = [gitPrompt];
+    let userLayer = userBefore ?? '';
+
+    if (userBefore?.startsWith(LEGACY_STARSHIP_HEADER)) {
+        userLayer = getMigratedStarshipUserLayer(userBefore);
+        files.push({ relativePath: FILE_PATHS.STARSHIP_CONFIG, before: userBefore, after: userLayer });
+    }
+
+    files.push({
+        relativePath: FILE_PATHS.STARSHIP_LAYERED,
+        before: readFileIfExists(getHomeFilePath(FILE_PATHS.STARSHIP_LAYERED)),
+        after: layerStarshipConfig(generated, userLayer, STARSHIP_HEADERS.LAYERED)
+    });
+
+    return files;
+}
+
+/**
+ * Get the git prompt helper for the current Smart Fetch and remote settings
+ */
+function getGitPromptFileContent(): string {
+    const remotes = getRemoteSettings();
+    return getGitPromptScript({
+        freshnessSeconds: getSmartFetchPolicy().freshnessMinutes * 60,
+        primaryRemote: remotes.primary,
+        secondaryRemotes: remotes.secondary
     });
 }
 
 /**
- * Append Colorful Carbon configuration to .zshrc if not already present
+ * Get the files of the terminal profile, relative to its directory (variant files are written separately)
+ * The user's starship.toml is only read, to layer it on top like the layered mode does
  */
-function appendZshrcConfig(): void {
-    const zshrcPath = getHomeFilePath(FILE_PATHS.ZSHRC);
-    const existingZshrc = fs.existsSync(zshrcPath) ? fs.readFileSync(zshrcPath, 'utf8') : '';
+function getTerminalProfileFiles(themeType: VariantId): PlannedFile[] {
+    const files: [string, string][] = [
+        ...Object.entries(getZdotdirShim(profileDir))
+            .map(([name, content]): [string, string] => [path.join(PROFILE_FILES.ZDOTDIR, name), content]),
+        [PROFILE_FILES.BLOCK, getZshrcContent({
+            themeMarker: getProfileFilePath(PROFILE_FILES.THEME_MARKER),
+            variantsDir: getProfileFilePath(PROFILE_FILES.VARIANTS_DIR),
+            starshipConfig: getProfileFilePath(PROFILE_FILES.STARSHIP_CONFIG)
+        })],
+        [PROFILE_FILES.STARSHIP_CONFIG, getVariantStarshipContent(themeType, getProfileFilePath(PROFILE_FILES.GIT_PROMPT))],
+        [PROFILE_FILES.GIT_PROMPT, getGitPromptFileContent()],
+        [PROFILE_FILES.GIT_COLORS, getGitColorsFileContent(themeType)],
+        [PROFILE_FILES.THEME_MARKER, themeType]
+    ];
 
-    // Check if our config is already present
-    if (!existingZshrc.includes('# Colorful Carbon Configuration')) {
-        const zshrcAdditions = `
+    return files.map(([relativePath, after]) => ({
+        relativePath,
+        before: readFileIfExists(getProfileFilePath(relativePath)),
+        after
+    }));
+}
 
-# Colorful Carbon Configuration - START
-# Added by Colorful Carbon VS Code Extension
-${getZshrcContent()}
-# Colorful Carbon Configuration - END
-`;
-        fs.appendFileSync(zshrcPath, zshrcAdditions);
+/**
+ * Write the terminal profile for a theme - the only files profile mode ever writes
+ */
+function writeTerminalProfile(themeType: VariantId): void {
+    getTerminalProfileFiles(themeType)
+        .filter(file => file.before !== file.after)
+        .forEach(file => {
+            fs.mkdirSync(path.dirname(getProfileFilePath(file.relativePath)), { recursive: true });
+            fs.writeFileSync(getProfileFilePath(file.relativePath), file.after);
+        });
+    writeVariantFiles(getProfileFilePath(PROFILE_FILES.VARIANTS_DIR), getProfileFilePath(PROFILE_FILES.GIT_PROMPT));
+}
+
+/**
+ * Get the complete starship config of a variant - layered with the user's starship.toml unless it is replaced
+ */
+function getVariantStarshipContent(themeType: VariantId, gitPromptPath?: string): string {
+    const generated = getStarshipContent(themeType, getPromptLayout(), gitPromptPath);
+    if (!isStarshipLayered()) {
+        return generated;
     }
+    const user = readFileIfExists(getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG)) ?? '';
+    const userLayer = user.startsWith(LEGACY_STARSHIP_HEADER) ? getMigratedStarshipUserLayer(user) : user;
+    return layerStarshipConfig(generated, userLayer, STARSHIP_HEADERS.LAYERED);
 }
 
 /**
- * Write starship config and theme marker file based on current theme
+ * Turn a starship.toml written by older versions into the user's own layer
+ * Only entries identical to what some variant generates are dropped - anything the user added or changed stays
  */
-function writeStarshipConfig(): void {
-    const currentTheme = getCurrentThemeName();
-    const themeType = getThemeType(currentTheme || THEME_NAMES.DEFAULT);
-    const starshipContent = getStarshipContent(themeType);
+function getMigratedStarshipUserLayer(legacyContent: string): string {
+    // Older versions had a shorter format line and their own git modules - they are ours too
+    const generatedConfigs = [...PALETTES, ...getCustomPalettes()].flatMap(palette => {
+        const content = getStarshipContent(palette.id, DEFAULT_PROMPT_LAYOUT);
+        return [
+            content,
+            content.replace(/^format = """[\s\S]*?"""$/m, LEGACY_STARSHIP_FORMAT),
+            getLegacyGitModules(palette.id)
+        ];
+    });
+    const remaining = subtractStarshipConfig(legacyContent, generatedConfigs);
+    return `${STARSHIP_HEADERS.USER}\n${remaining ? `\n${remaining}\n` : ''}`;
+}
 
-    fs.writeFileSync(getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG), starshipContent);
+/**
+ * Write the theme marker plus the variant color files the shell resolves it against
+ */
+function writeThemeMarker(themeType: VariantId): void {
+    writeVariantFiles();
     fs.writeFileSync(getHomeFilePath(FILE_PATHS.THEME_MARKER), themeType);
 }
 
 /**
- * Setup Git color configuration based on theme
+ * Write the files of every variant so shells can resolve any id found in the marker or COLORFUL_CARBON_THEME:
+ * <id>.env (highlight colors), <id>.gitconfig (git colors) and <id>.starship.toml (complete starship config)
+ */
+function writeVariantFiles(
+    variantsDir: string = getHomeFilePath(FILE_PATHS.VARIANTS_DIR),
+    gitPromptPath?: string
+): void {
+    fs.mkdirSync(variantsDir, { recursive: true });
+
+    const palettes = [...PALETTES, ...getCustomPalettes()];
+    palettes.forEach(palette => {
+        [
+            [`${palette.id}.env`, getVariantFileContent(palette)],
+            [`${palette.id}.gitconfig`, getGitColorsFileContent(palette.id)],
+            [`${palette.id}.starship.toml`, getVariantStarshipContent(palette.id, gitPromptPath)]
+        ].forEach(([file, content]) => {
+            if (readFileIfExists(path.join(variantsDir, file)) !== content) {
+                fs.writeFileSync(path.join(variantsDir, file), content);
+            }
+        });
+    });
+
+    // Remove files of custom variants that were deleted from settings
+    const current = new Set<string>(palettes.map(palette => palette.id));
+    fs.readdirSync(variantsDir)
+        .filter(file => file.startsWith('custom-') && !current.has(file.replace(/\.(env|gitconfig|starship\.toml)$/, '')))
+        .forEach(file => fs.unlinkSync(path.join(variantsDir, file)));
+}
+
+/**
+ * Write the git color file for a theme (linked from the global gitconfig during setup)
+ */
+async function setupGitColorsForTheme(themeType: VariantId): Promise<void> {
+    const colorsPath = getHomeFilePath(FILE_PATHS.GIT_COLORS);
+    fs.mkdirSync(path.dirname(colorsPath), { recursive: true });
+    fs.writeFileSync(colorsPath, getGitColorsFileContent(themeType));
+}
+
+/**
+ * Get the git config color values for a theme variant
  */
-async function setupGitColorsForTheme(themeType: 'default' | 'dark-knight'): Promise<void> {
+function getGitColorSettings(themeType: VariantId): [string, string][] {
     // Theme-specific colors
-    const branchColor = themeType === 'dark-knight' ? 'yellow bold' : 'magenta bold';
-    const addedChangesColor = themeType === 'dark-knight' ? 'magenta bold' : 'green';
+    const { git: gitColors } = getVariantPalette(themeType);
+    const branchColor = gitColors.branch;
+    const addedChangesColor = gitColors.added;
 
-    const gitCommands = [
+    return [
         ['color.ui', 'auto'],
         ['color.status', 'always'],
         ['color.status.branch', branchColor],
@@ -853,40 +2086,60 @@ async function setupGitColorsForTheme(themeType: 'default' | 'dark-knight'): Pro
         ['color.branch.current', branchColor],
         ['color.branch.local', branchColor],
         ['color.branch.remote', branchColor],
-        ['color.decorate.branch', themeType === 'dark-knight' ? 'yellow' : 'magenta']
+        ['color.decorate.branch', gitColors.decorateBranch]
     ];
+}
 
-    let failedCommands = 0;
+/**
+ * Get the git color file content for a theme variant
+ */
+function getGitColorsFileContent(themeType: VariantId): string {
+    const { name } = getVariantPalette(themeType);
+    return renderGitConfig(
+        getGitColorSettings(themeType),
+        `# Generated by Colorful Carbon for ${name} - rewritten on every theme change`
+    );
+}
 
-    gitCommands.forEach(([key, value]) => {
-        try {
-            execSync(`git config --global ${key} "${value}"`);
-        } catch {
-            failedCommands++;
+/**
+ * Get the git colors the user set globally that the color file overrides
+ */
+function getShadowedGitColors(themeType: VariantId): Record<string, string> {
+    const shadowed: Record<string, string> = {};
+    getGitColorSettings(themeType).forEach(([key, value]) => {
+        const userValue = getUserGitConfig(key);
+        if (userValue !== undefined && userValue !== value) {
+            shadowed[key] = userValue;
         }
     });
-
-    if (failedCommands > 0) {
-        vscode.window.showWarningMessage(`Some Git color settings could not be applied (${failedCommands} failed)`);
-    }
+    return shadowed;
 }
 
 /**
- * Setup Git color configuration for better terminal output
- * Uses current theme to determine colors
+ * Record shadowed git colors so the user can see what removal brings back
+ * Values recorded by an earlier setup are kept
  */
-async function setupGitColors(): Promise<void> {
-    const currentTheme = getCurrentThemeName();
-    const themeType = getThemeType(currentTheme || THEME_NAMES.DEFAULT);
-    await setupGitColorsForTheme(themeType);
+async function recordShadowedGitColors(shadowed: Record<string, string>): Promise<void> {
+    const recordPath = getHomeFilePath(FILE_PATHS.GIT_SHADOWED);
+    let recorded: Record<string, string> = {};
+    try {
+        recorded = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+    } catch {
+        // No record yet
+    }
+    fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+    fs.writeFileSync(recordPath, JSON.stringify({ ...shadowed, ...recorded }, null, 2));
 }
 
 /**
  * Finalize setup - apply VS Code settings and create completion marker
  */
-async function finalizeSetup(): Promise<void> {
-    // Apply VS Code settings
-    applyTerminalSettings();
+async function finalizeSetup(plan: SetupPlan): Promise<void> {
+    // Apply the planned VS Code settings
+    const config = vscode.workspace.getConfiguration();
+    plan.settings.forEach(({ key, after }) => {
+        config.update(key, after, vscode.ConfigurationTarget.Global);
+    });
 
     // Create a setup completion marker
     const markerPath = getHomeFilePath(FILE_PATHS.INSTALL_MARKER);
@@ -900,37 +2153,41 @@ async function showSetupStatus(): Promise<void> {
     const items: string[] = [];
 
     // Check theme
+    const shell = getTargetShell();
     const currentTheme = getCurrentThemeName();
-    items.push(`✓ Theme: ${currentTheme === THEME_NAMES.DEFAULT || currentTheme === THEME_NAMES.DARK_KNIGHT ? '✅ Applied' : '❌ Not applied'}`);
+    items.push(`✓ Theme: ${isColorfulCarbonTheme(currentTheme) ? '✅ Applied' : '❌ Not applied'}`);
 
-    // Check commands in PATH
-    const commands = ['starship', 'fzf'];
-    commands.forEach(cmd => {
-        try {
-            execSync(`which ${cmd}`, { stdio: 'ignore' });
-            items.push(`✓ ${cmd}: ✅ Installed`);
-        } catch {
-            items.push(`✓ ${cmd}: ❌ Not installed`);
-        }
+    // Check dependencies (commands in PATH, plugins by their files)
+    getRequiredDependencies(shell).forEach(dep => {
+        items.push(`✓ ${dep}: ${isDependencyInstalled(dep) ? '✅ Installed' : '❌ Not installed'}`);
     });
 
-    // Check brew packages
-    const brewPackages = ['zsh-autosuggestions', 'zsh-syntax-highlighting'];
-    brewPackages.forEach(pkg => {
-        try {
-            execSync(`brew list ${pkg}`, { stdio: 'ignore' });
-            items.push(`✓ ${pkg}: ✅ Installed`);
-        } catch {
-            items.push(`✓ ${pkg}: ❌ Not installed`);
-        }
-    });
+    // The terminal profile replaces rc block, starship file and git link
+    if (isProfileMode()) {
+        const profileReady = fs.existsSync(getProfileFilePath(PROFILE_FILES.BLOCK));
+        const isDefault = vscode.workspace.getConfiguration().get(getDefaultProfileKey()) === TERMINAL_PROFILE_TITLE;
+        items.push(`✓ Terminal profile: ${profileReady ? `✅ ${TERMINAL_PROFILE_TITLE}${isDefault ? ' (default)' : ''}` : '❌ Not set up'}`);
+        items.push(`✓ Profile files: ${profileDir}`);
+    } else {
+        // Check shell configuration (target shell plus any other shell we configured)
+        items.push(`✓ Shell: ${shell}`);
+        const configuredShells = getConfiguredShells();
+        const shellsToReport = Array.from(new Set([shell, ...configuredShells]));
+        shellsToReport.forEach(reportedShell => {
+            const configured = configuredShells.includes(reportedShell);
+            items.push(`✓ ${SHELL_RC_FILES[reportedShell]}: ${configured ? '✅ Configured' : '❌ Not configured'}`);
+        });
 
-    // Check config files
-    const configs = [FILE_PATHS.ZSHRC, FILE_PATHS.STARSHIP_CONFIG];
-    configs.forEach(config => {
-        const exists = fs.existsSync(getHomeFilePath(config));
-        items.push(`✓ ${config}: ${exists ? '✅ Configured' : '❌ Not configured'}`);
-    });
+        // Check starship config (the generated layer when layering)
+        const starshipFile = isStarshipLayered() ? FILE_PATHS.STARSHIP_LAYERED : FILE_PATHS.STARSHIP_CONFIG;
+        const starshipExists = fs.existsSync(getHomeFilePath(starshipFile));
+        items.push(`✓ ${starshipFile}: ${starshipExists ? '✅ Configured' : '❌ Not configured'}`);
+
+        // Check git colors link
+        const globalGitConfig = readFileIfExists(getGlobalGitConfigPath(fs.existsSync)) ?? '';
+        const gitColorsLinked = hasInclude(globalGitConfig, GIT_INCLUDE_PATH);
+        items.push(`✓ Git colors: ${gitColorsLinked ? `✅ Linked (${GIT_INCLUDE_PATH})` : '❌ Not linked'}`);
+    }
 
     // Add cleanup option at the bottom
     items.push('');
@@ -948,49 +2205,422 @@ async function showSetupStatus(): Promise<void> {
     }
 }
 
+/**
+ * Time starship, each custom module and the Smart Fetch hook in every workspace folder and show the report
+ */
+async function diagnosePrompt(previewProvider: PreviewContentProvider): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const configFile = isStarshipLayered() ? FILE_PATHS.STARSHIP_LAYERED : FILE_PATHS.STARSHIP_CONFIG;
+    const configPath = isProfileMode() ? getProfileFilePath(PROFILE_FILES.STARSHIP_CONFIG) : getHomeFilePath(configFile);
+    const config = readFileIfExists(configPath);
+
+    if (!isDependencyInstalled('starship')) {
+        vscode.window.showErrorMessage('Starship is not installed - run the Complete Makeover first.');
+        return;
+    }
+    if (config === undefined) {
+        vscode.window.showErrorMessage(`${isProfileMode() ? configPath : `~/${configFile}`} does not exist - run the Complete Makeover first.`);
+        return;
+    }
+    if (folders.length === 0) {
+        vscode.window.showInformationMessage('Open a folder to diagnose the prompt in it.');
+        return;
+    }
+
+    // The hook as the shells run it, except that nothing is ever due (no fetch starts, not even for
+    // a repository never fetched - its age counts from 1970)
+    const fetchHook = getSmartFetchBlock('bash', { ...getSmartFetchPolicy(), intervalMinutes: 1e9 });
+    const fetchHookSkipped = process.env.COLORFUL_CARBON_DISABLE_AUTOFETCH
+        ? 'turned off by COLORFUL_CARBON_DISABLE_AUTOFETCH'
+        : getConfiguredShells().length === 0 && !isProfileMode() ? 'no shell is configured yet' : undefined;
+
+    const diagnoses = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Diagnosing the prompt'
+    }, async progress => {
+        const results: FolderDiagnosis[] = [];
+        for (const folder of folders) {
+            progress.report({ message: folder.name });
+            const cwd = folder.uri.fsPath;
+            const diagnosis: FolderDiagnosis = { folder: cwd, timings: [], explain: '', customModules: [] };
+
+            // One at a time, so the measurements do not slow each other down
+            try {
+                diagnosis.promptMs = (await runStarship(['prompt'], cwd, configPath)).durationMs;
+                diagnosis.timings = parseStarshipTimings((await runStarship(['timings'], cwd, configPath)).output);
+                diagnosis.explain = (await runStarship(['explain'], cwd, configPath)).output;
+            } catch (error) {
+                diagnosis.timingsError = error instanceof Error ? error.message : String(error);
+            }
+
+            for (const module of getCustomModules(config)) {
+                try {
+                    // First run fills caches (the git prompt helper's), the repeat shows a normal prompt
+                    const firstRunMs = await timeCustomModule(module, cwd);
+                    const repeatRunMs = await timeCustomModule(module, cwd);
+                    diagnosis.customModules.push({ name: module.name, firstRunMs, repeatRunMs });
+                } catch (error) {
+                    diagnosis.customModules.push({ name: module.name, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            if (fetchHookSkipped) {
+                diagnosis.fetchHookError = fetchHookSkipped;
+            } else {
+                try {
+                    diagnosis.fetchHookMs = await timeBashFunction(fetchHook, '__colorful_carbon_fetch', cwd);
+                } catch (error) {
+                    diagnosis.fetchHookError = error instanceof Error ? error.message : String(error);
+                }
+            }
+
+            results.push(diagnosis);
+        }
+        return results;
+    });
+
+    // Where each module is set up: the theme, the user's layer or starship's defaults
+    const themeTables = new Set(getTableNames(getStarshipContent(getThemeType(getCurrentThemeName()))));
+    const userTables = new Set(isStarshipLayered()
+        ? getTableNames(readFileIfExists(getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG)) ?? '')
+        : []);
+    const describeModule = (name: string): string | undefined => {
+        const sources = [
+            themeTables.has(name) ? `theme \`[${name}]\`` : undefined,
+            name === 'custom.git_prompt' && themeTables.has(name) ? `runs \`~/${FILE_PATHS.GIT_PROMPT}\`` : undefined,
+            userTables.has(name) ? `${themeTables.has(name) ? 'changed in' : ''} \`~/${FILE_PATHS.STARSHIP_CONFIG}\``.trim() : undefined
+        ].filter(Boolean);
+        return sources.length > 0 ? sources.join(', ') : undefined;
+    };
+
+    await previewProvider.showMarkdown('prompt-diagnosis.md', renderPromptReport(diagnoses, {
+        configPath: `~/${configFile}`,
+        describeModule
+    }));
+}
+
 /**
  * Get zshrc configuration content with theme-aware git integration
  */
-function getZshrcContent(): string {
-    return `# Homebrew zsh plugins - tries multiple common locations
-if [[ -f /opt/homebrew/share/zsh-autosuggestions/zsh-autosuggestions.zsh ]]; then
-    source /opt/homebrew/share/zsh-autosuggestions/zsh-autosuggestions.zsh
-elif [[ -f /usr/local/share/zsh-autosuggestions/zsh-autosuggestions.zsh ]]; then
-    source /usr/local/share/zsh-autosuggestions/zsh-autosuggestions.zsh
-elif [[ -f /usr/share/zsh-autosuggestions/zsh-autosuggestions.zsh ]]; then
-    source /usr/share/zsh-autosuggestions/zsh-autosuggestions.zsh
-fi
+function getZshrcContent(locations: GeneratedFileLocations = HOME_FILE_LOCATIONS): string {
+    return `# zsh plugins - tries Homebrew and distro package locations
+${getPluginSourceChain('zsh-autosuggestions')}
 
 # Configure syntax highlighting colors BEFORE loading the plugin
-typeset -A ZSH_HIGHLIGHT_STYLES
-ZSH_HIGHLIGHT_STYLES[command]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[builtin]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[function]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[alias]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[precommand]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[commandseparator]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[default]='fg=green'
-ZSH_HIGHLIGHT_STYLES[unknown-token]='fg=green'
-ZSH_HIGHLIGHT_STYLES[arg0]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[reserved-word]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[suffix-alias]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[global-alias]='fg=green,bold'
-ZSH_HIGHLIGHT_STYLES[single-hyphen-option]='fg=green'
-ZSH_HIGHLIGHT_STYLES[double-hyphen-option]='fg=green'
+${getHighlightStylesContent(locations)}
 
 # zsh-syntax-highlighting (must be loaded last)
-if [[ -f /opt/homebrew/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh ]]; then
-    source /opt/homebrew/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh
-elif [[ -f /usr/local/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh ]]; then
-    source /usr/local/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh
-elif [[ -f /usr/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh ]]; then
-    source /usr/share/zsh-syntax-highlighting/zsh-syntax-highlighting.zsh
-fi
+${getPluginSourceChain('zsh-syntax-highlighting')}
 
 # FZF
 [ -f ~/.fzf.zsh ] && source ~/.fzf.zsh
 
-# Git upstream tracking helper - checks once per terminal session
+${getGitUpstreamCheck()}
+
+${getSmartFetchBlock('zsh')}
+
+# Initialize Starship prompt (the window's variant config, else the layered one Colorful Carbon generated)
+${getStarshipConfigExport(locations.starshipConfig)}
+eval "$(starship init zsh)"
+
+${getThemeRefreshContent('zsh', locations)}
+
+${getGitWrapperContent('zsh', locations.variantsDir)}`;
+}
+
+/**
+ * Get the generated color file of a variant as a shell path (the id comes from a shell expression)
+ */
+function getVariantFileShellPath(variantExpression: string, variantsDir: string): string {
+    return `"${variantsDir}/${variantExpression}.env"`;
+}
+
+/**
+ * Get the generated color file content the shell reads for a variant
+ */
+function getVariantFileContent(palette: VariantPalette): string {
+    return `# Colorful Carbon variant: ${palette.name} (generated - changes are overwritten)
+highlight_command=${palette.highlight.command}
+highlight_argument=${palette.highlight.argument}
+`;
+}
+
+/**
+ * Get zsh-syntax-highlighting styles for the window's variant (COLORFUL_CARBON_THEME), else the theme marker's
+ */
+function getHighlightStylesContent(locations: GeneratedFileLocations): string {
+    const commandTokens = ['command', 'builtin', 'function', 'alias', 'precommand', 'commandseparator'];
+    const argumentTokens = ['default', 'unknown-token'];
+    const commandLikeTokens = ['arg0', 'reserved-word', 'suffix-alias', 'global-alias'];
+    const optionTokens = ['single-hyphen-option', 'double-hyphen-option'];
+
+    const styleLine = (token: string, variable: string) => `    ZSH_HIGHLIGHT_STYLES[${token}]="$${variable}"`;
+
+    const fallback = PALETTES[0].highlight;
+
+    return `typeset -A ZSH_HIGHLIGHT_STYLES
+# Set the styles of a variant (called again when the terminal repaints in place)
+__colorful_carbon_highlight_styles() {
+    local variant_file=${getVariantFileShellPath('${1:-default}', locations.variantsDir)}
+    local hl_command hl_argument
+    hl_command=$(sed -n 's/^highlight_command=//p' "$variant_file" 2>/dev/null)
+    hl_argument=$(sed -n 's/^highlight_argument=//p' "$variant_file" 2>/dev/null)
+    [[ -z "$hl_command" ]] && hl_command='${fallback.command}'
+    [[ -z "$hl_argument" ]] && hl_argument='${fallback.argument}'
+${[
+        ...commandTokens.map(token => styleLine(token, 'hl_command')),
+        ...argumentTokens.map(token => styleLine(token, 'hl_argument')),
+        ...commandLikeTokens.map(token => styleLine(token, 'hl_command')),
+        ...optionTokens.map(token => styleLine(token, 'hl_argument'))
+    ].join('\n')}
+}
+__colorful_carbon_highlight_styles "\${COLORFUL_CARBON_THEME:-$(cat "${locations.themeMarker}" 2>/dev/null)}"`;
+}
+
+/**
+ * Get an if/elif chain that sources the first installed copy of a zsh plugin
+ */
+function getPluginSourceChain(plugin: DependencyId): string {
+    const branches = getPluginFileCandidates(plugin).map((file, index) =>
+        `${index === 0 ? 'if' : 'elif'} [[ -f ${file} ]]; then
+    source ${file}`
+    );
+    return `${branches.join('\n')}
+fi`;
+}
+
+/**
+ * Get bashrc configuration content with theme-aware git integration
+ */
+function getBashrcContent(): string {
+    return `# FZF
+[ -f ~/.fzf.bash ] && source ~/.fzf.bash
+
+${getGitUpstreamCheck()}
+
+${getSmartFetchBlock('bash')}
+
+# Initialize Starship prompt (the window's variant config, else the layered one Colorful Carbon generated)
+${getStarshipConfigExport()}
+eval "$(starship init bash)"
+
+${getThemeRefreshContent('bash')}
+
+${getGitWrapperContent('bash')}`;
+}
+
+/**
+ * Get fish configuration content for the conf.d file
+ * Mirrors the zsh/bash block with fish syntax: PWD variable events instead of chpwd,
+ * and a detached sh job for the background fetch (fish cannot background a block)
+ */
+function getFishContent(): string {
+    const policy = getSmartFetchPolicy();
+
+    return `if status is-interactive
+    # FZF key bindings (written by fzf's install script)
+    if test -f ~/.config/fish/functions/fzf_key_bindings.fish
+        fzf_key_bindings
+    end
+
+    # Repo path -> cache file name (same hash as the zsh/bash block and starship module)
+    function __colorful_carbon_repo_hash
+        if type -q shasum
+            printf "%s" $argv[1] | shasum -a 256 2>/dev/null | cut -d' ' -f1
+        else if type -q sha256sum
+            printf "%s" $argv[1] | sha256sum 2>/dev/null | cut -d' ' -f1
+        else
+            printf "%s" $argv[1] | sed 's/\\//_/g'
+        end
+    end
+
+    # Git upstream tracking helper - checks once per terminal session
+    function check_git_upstream
+        # Only run if in a git repository
+        command git rev-parse --git-dir >/dev/null 2>&1; or return
+
+        # Get current branch
+        set -l current_branch (command git branch --show-current 2>/dev/null)
+        test -z "$current_branch"; and return
+
+        # Get upstream branch
+        set -l upstream (command git rev-parse --abbrev-ref '@{upstream}' 2>/dev/null)
+
+        # Branch pushed to: pushRemote or remote.pushDefault, else its remote, else the primary remote
+        set -l push_remote (command git config --get "branch.$current_branch.pushRemote" 2>/dev/null; or command git config --get remote.pushDefault 2>/dev/null)
+        set -l remote $push_remote
+        test -z "$remote"; and set remote (command git config --get "branch.$current_branch.remote" 2>/dev/null)
+        test -z "$remote"; and set remote ${quoteFish(getRemoteSettings().primary)}
+
+        # Check if remote branch exists
+        set -l remote_branch "$remote/$current_branch"
+        command git show-ref --verify --quiet "refs/remotes/$remote_branch" 2>/dev/null
+        set -l remote_exists $status
+
+        # Case 1: No upstream set but remote exists
+        if test -z "$upstream"; and test $remote_exists -eq 0
+            echo ""
+            echo "ℹ️  Remote branch '$remote_branch' exists but upstream not set"
+            echo "💡 Run: git branch --set-upstream-to=$remote_branch"
+            echo ""
+        # Case 2: Upstream set but doesn't match current branch (fine when pushing elsewhere on purpose)
+        else if test -n "$upstream"; and test -z "$push_remote"; and test "$upstream" != "$remote_branch"; and test $remote_exists -eq 0
+            echo ""
+            echo "⚠️  Branch '$current_branch' is tracking '$upstream'"
+            echo "💡 To track '$remote_branch' instead, run:"
+            echo "    git branch --set-upstream-to=$remote_branch"
+            echo ""
+        end
+    end
+
+    # Run check once per terminal (suppress if already checked)
+    if not set -q CC_GIT_CHECK_DONE
+        set -gx CC_GIT_CHECK_DONE 1
+        check_git_upstream
+    end
+
+    # Colorful Carbon: Smart Git Auto-Fetch (opt-out: COLORFUL_CARBON_DISABLE_AUTOFETCH=1)
+    if not set -q COLORFUL_CARBON_DISABLE_AUTOFETCH
+        function __colorful_carbon_fetch --on-variable PWD
+            # LAYER 1: Quick exit if not in git repo (~5ms)
+            command git rev-parse --git-dir >/dev/null 2>&1; or return
+
+            # LAYER 2: Get repo root and hash (~10ms)
+            set -l repo_root (command git rev-parse --show-toplevel 2>/dev/null)
+            test -z "$repo_root"; and return
+${getFetchPathFilter('fish', policy)}
+            set -l cache_dir "$HOME/.git-fetch-cache"
+            set -l hash (__colorful_carbon_repo_hash "$repo_root")
+            test -z "$hash"; and return
+
+            set -l cache_file "$cache_dir/$hash"
+
+            # LAYER 3: Quick cache age check (~5ms) - Exit early if fresh
+            set -l last_fetch 0
+            test -f "$cache_file"; and set last_fetch (cat "$cache_file" 2>/dev/null; or echo 0)
+            set -l now (date +%s)
+            set -l age (math $now - $last_fetch)
+
+            test $age -lt ${policy.intervalMinutes * 60}; and return  # Cache fresh, exit early
+
+            # LAYER 4: Only now do expensive operations
+            set -l lock_file "$cache_file.lock"
+            if test -f "$lock_file"
+                # Locks hold "<pid> <start time>" - reclaim one whose fetch died or ran past ${STALE_LOCK_SECONDS / 60} minutes
+                read -l lock_pid lock_started < "$lock_file" 2>/dev/null
+                # No start time: the lock file's age stands in for it
+                if not string match -qr '^[0-9]+$' -- "$lock_started"
+                    set -l old_start (find "$lock_file" -mmin +${STALE_LOCK_SECONDS / 60} 2>/dev/null)
+                    set lock_started $now
+                    test -n "$old_start"; and set lock_started 0
+                end
+                if test -n "$lock_pid"; and kill -0 $lock_pid 2>/dev/null; and test (math $now - $lock_started) -lt ${STALE_LOCK_SECONDS}
+                    return  # Already fetching
+                end
+                # No pid yet: the lock is being written - only one past the grace period is left over
+                set -l old_lock (find "$lock_file" -mmin +${LOCK_GRACE_SECONDS / 60} 2>/dev/null)
+                test -z "$lock_pid"; and test -z "$old_lock"; and return
+                rm -f "$lock_file"
+            end
+
+            mkdir -p "$cache_dir" 2>/dev/null; or return
+            find "$cache_dir" -type f -not -name "*.lock" -mtime +30 -delete 2>/dev/null
+
+            # >? (noclobber): only one shell wins the lock; the fetch job then stores its own pid
+            echo "$fish_pid $now" >? "$lock_file" 2>/dev/null; or return
+            printf "%s\\n" "$repo_root" > "$cache_file.path" 2>/dev/null  # hash -> path index
+            sh -c '${getFetchJobScript(policy)}' \\
+                sh "$repo_root" $now "$cache_file" "$lock_file" >/dev/null 2>&1 &
+            disown 2>/dev/null
+        end
+
+        function __colorful_carbon_fetch_preexec --on-event fish_preexec
+            __colorful_carbon_fetch
+        end
+
+        __colorful_carbon_fetch
+    end
+
+    # Initialize Starship prompt (the window's variant config, else the layered one Colorful Carbon generated)
+    not set -q COLORFUL_CARBON_THEME; and test -f "$HOME/${FILE_PATHS.STARSHIP_LAYERED}"; and set -gx STARSHIP_CONFIG "$HOME/${FILE_PATHS.STARSHIP_LAYERED}"
+    starship init fish | source
+
+${getThemeRefreshContent('fish')}
+
+    # Force color support for git
+    set -gx TERM xterm-256color
+
+    # Git color configuration
+    set -gx GIT_PAGER 'less -R'
+    set -gx LESS '-R'
+
+    # Git wrapper - git keeps the terminal (editors, pagers, prompts, progress and exit codes
+    # all work as usual); only the branch names git status prints uncolored get the branch color.
+    # Everything else, checkout and switch included, goes straight to git with the variant's color config
+    function git --wraps git
+        set -l exit_code 0
+
+        switch "$argv[1]"
+            case status st
+                # Pipes and color.ui=never get git's output untouched
+                if isatty stdout; and test (__colorful_carbon_git config --get-colorbool color.status true) = true
+                    __colorful_carbon_git -c color.status=always $argv | __colorful_carbon_color_branches
+                    set exit_code $pipestatus[1]
+                else
+                    __colorful_carbon_git $argv
+                    set exit_code $status
+                end
+            case '*'
+                __colorful_carbon_git $argv
+                set exit_code $status
+        end
+
+        # Update fetch cache on successful pull/fetch (for smart auto-fetch)
+        if test $exit_code -eq 0; and not set -q COLORFUL_CARBON_DISABLE_AUTOFETCH
+            switch "$argv[1]"
+                case pull fetch
+                    set -l repo_root (command git rev-parse --show-toplevel 2>/dev/null)
+                    if test -n "$repo_root"
+                        set -l cache_dir "$HOME/.git-fetch-cache"
+                        set -l cache_file "$cache_dir/"(__colorful_carbon_repo_hash "$repo_root")
+                        mkdir -p "$cache_dir" 2>/dev/null; and date +%s > "$cache_file" 2>/dev/null
+                        printf "%s\\n" "$repo_root" > "$cache_file.path" 2>/dev/null
+                        rm -f "$cache_file.errors"
+                    end
+            end
+        end
+
+        return $exit_code
+    end
+
+    # git with the colors of this window's variant (COLORFUL_CARBON_THEME), else the global color file
+    function __colorful_carbon_git
+        set -l variant_colors "$HOME/${FILE_PATHS.VARIANTS_DIR}/$COLORFUL_CARBON_THEME.gitconfig"
+        if set -q COLORFUL_CARBON_THEME; and test -f "$variant_colors"
+            command git -c "include.path=$variant_colors" $argv
+        else
+            command git $argv
+        end
+    end
+
+    # Paint the upstream branch in git status with git's own branch color (set per variant in our gitconfig)
+    function __colorful_carbon_color_branches
+        set -l branch_color (__colorful_carbon_git config --get-color color.status.branch '${PALETTES[0].git.branch}')
+        set -l reset (__colorful_carbon_git config --get-color '' reset)
+        sed -E "s/(Your branch is [^']*')([^']+)/\\1$branch_color\\2$reset/g"
+    end
+
+    # Simple git aliases (using the wrapper)
+    alias gst 'git status'
+    alias glog 'git log --oneline -10'
+end`;
+}
+
+/**
+ * Get the upstream tracking check shared by zsh and bash (runs once per terminal)
+ */
+function getGitUpstreamCheck(): string {
+    return `# Git upstream tracking helper - checks once per terminal session
 check_git_upstream() {
     # Only run if in a git repository
     if ! git rev-parse --git-dir &>/dev/null; then
@@ -1006,8 +2636,13 @@ check_git_upstream() {
     # Get upstream branch
     local upstream=$(git rev-parse --abbrev-ref @{upstream} 2>/dev/null)
 
+    # Branch pushed to: pushRemote or remote.pushDefault, else its remote, else the primary remote
+    local push_remote=$(git config --get "branch.$current_branch.pushRemote" 2>/dev/null || git config --get remote.pushDefault 2>/dev/null)
+    local remote=\${push_remote:-$(git config --get "branch.$current_branch.remote" 2>/dev/null)}
+    remote=\${remote:-${quotePosix(getRemoteSettings().primary)}}
+
     # Check if remote branch exists
-    local remote_branch="origin/$current_branch"
+    local remote_branch="$remote/$current_branch"
     git show-ref --verify --quiet "refs/remotes/$remote_branch" 2>/dev/null
     local remote_exists=$?
 
@@ -1017,8 +2652,8 @@ check_git_upstream() {
         echo "ℹ️  Remote branch '$remote_branch' exists but upstream not set"
         echo "💡 Run: git branch --set-upstream-to=$remote_branch"
         echo ""
-    # Case 2: Upstream set but doesn't match current branch
-    elif [[ -n "$upstream" && "$upstream" != "$remote_branch" && $remote_exists -eq 0 ]]; then
+    # Case 2: Upstream set but doesn't match current branch (fine when pushing elsewhere on purpose)
+    elif [[ -n "$upstream" && -z "$push_remote" && "$upstream" != "$remote_branch" && $remote_exists -eq 0 ]]; then
         echo ""
         echo "⚠️  Branch '$current_branch' is tracking '$upstream'"
         echo "💡 To track '$remote_branch' instead, run:"
@@ -1031,9 +2666,37 @@ check_git_upstream() {
 if [[ -z "$CC_GIT_CHECK_DONE" ]]; then
     export CC_GIT_CHECK_DONE=1
     check_git_upstream
-fi
+fi`;
+}
+
+/**
+ * Get the Smart Git Fetch block for a shell
+ * zsh hooks into chpwd/preexec, bash runs it from PROMPT_COMMAND before each prompt
+ */
+function getSmartFetchBlock(shell: Exclude<ShellType, 'fish'>, policy: SmartFetchPolicy = getSmartFetchPolicy()): string {
+
+    // zsh can disown inline; bash double-forks so no job notices reach the prompt
+    const fetchJob = `sh -c '${getFetchJobScript(policy)}' sh "$repo_root" $now "$cache_file" "$lock_file" >/dev/null 2>&1`;
+    const backgroundFetch = shell === 'zsh'
+        ? `${fetchJob} &!`
+        : `( ${fetchJob} & )`;
+
+    const hooks = shell === 'zsh' ? `  if [[ ! " \${chpwd_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
+    chpwd_functions+=(__colorful_carbon_fetch)
+  fi
+  if [[ ! " \${preexec_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
+    preexec_functions+=(__colorful_carbon_fetch)
+  fi` : `  # Preserve $? so prompts still see the exit status of the last command
+  __colorful_carbon_prompt_hook() {
+    local last_status=$?
+    __colorful_carbon_fetch
+    return $last_status
+  }
+  if [[ "$PROMPT_COMMAND" != *__colorful_carbon_prompt_hook* ]]; then
+    PROMPT_COMMAND="__colorful_carbon_prompt_hook\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+  fi`;
 
-# Colorful Carbon: Smart Git Auto-Fetch (opt-out: COLORFUL_CARBON_DISABLE_AUTOFETCH=1)
+    return `# Colorful Carbon: Smart Git Auto-Fetch (opt-out: COLORFUL_CARBON_DISABLE_AUTOFETCH=1)
 if [[ -z "$COLORFUL_CARBON_DISABLE_AUTOFETCH" ]]; then
   function __colorful_carbon_fetch() {
     # LAYER 1: Quick exit if not in git repo (~5ms)
@@ -1042,9 +2705,16 @@ if [[ -z "$COLORFUL_CARBON_DISABLE_AUTOFETCH" ]]; then
     # LAYER 2: Get repo root and hash (~10ms)
     local repo_root=$(git rev-parse --show-toplevel 2>/dev/null)
     [[ -z "$repo_root" ]] && return
-
+${getFetchPathFilter(shell, policy)}
     local cache_dir="$HOME/.git-fetch-cache"
-    local hash=$(echo -n "$repo_root" | shasum -a 256 2>/dev/null | cut -d' ' -f1)
+    local hash
+    if command -v shasum >/dev/null 2>&1; then
+      hash=$(printf "%s" "$repo_root" | shasum -a 256 2>/dev/null | cut -d' ' -f1)
+    elif command -v sha256sum >/dev/null 2>&1; then
+      hash=$(printf "%s" "$repo_root" | sha256sum 2>/dev/null | cut -d' ' -f1)
+    else
+      hash=$(printf "%s" "$repo_root" | sed 's/\\//_/g')
+    fi
     [[ -z "$hash" ]] && return
 
     local cache_file="$cache_dir/$hash"
@@ -1055,66 +2725,322 @@ if [[ -z "$COLORFUL_CARBON_DISABLE_AUTOFETCH" ]]; then
     local now=$(date +%s)
     local age=$((now - last_fetch))
 
-    [[ $age -lt 900 ]] && return  # Cache fresh, exit early
+    [[ $age -lt ${policy.intervalMinutes * 60} ]] && return  # Cache fresh, exit early
 
     # LAYER 4: Only now do expensive operations
     local lock_file="$cache_file.lock"
-    [[ -f "$lock_file" ]] && return  # Already fetching
+    if [[ -f "$lock_file" ]]; then
+      # Locks hold "<pid> <start time>" - reclaim one whose fetch died or ran past ${STALE_LOCK_SECONDS / 60} minutes
+      local lock_pid lock_started
+      read -r lock_pid lock_started < "$lock_file" 2>/dev/null
+      # No start time: the lock file's age stands in for it
+      if [[ ! "$lock_started" =~ ^[0-9]+$ ]]; then
+        lock_started=$now
+        [[ -n "$(find "$lock_file" -mmin +${STALE_LOCK_SECONDS / 60} 2>/dev/null)" ]] && lock_started=0
+      fi
+      if [[ -n "$lock_pid" ]] && kill -0 "$lock_pid" 2>/dev/null && (( now - lock_started < ${STALE_LOCK_SECONDS} )); then
+        return  # Already fetching
+      fi
+      # No pid yet: the lock is being written - only one past the grace period is left over
+      if [[ -z "$lock_pid" ]] && [[ -z "$(find "$lock_file" -mmin +${LOCK_GRACE_SECONDS / 60} 2>/dev/null)" ]]; then
+        return
+      fi
+      rm -f "$lock_file"
+    fi
 
     mkdir -p "$cache_dir" 2>/dev/null || return
     find "$cache_dir" -type f -not -name "*.lock" -mtime +30 -delete 2>/dev/null || true
 
-    touch "$lock_file" 2>/dev/null || return
-    (
-      if git fetch --quiet --all --prune --tags 2>/dev/null; then
-        echo $now > "$cache_file"
-      fi
-      rm -f "$lock_file"
-    ) &!
+    # noclobber: only one shell wins the lock; the fetch job then stores its own pid
+    ( set -o noclobber; echo "$$ $now" > "$lock_file" ) 2>/dev/null || return
+    printf "%s\\n" "$repo_root" > "$cache_file.path" 2>/dev/null  # hash -> path index
+    ${backgroundFetch}
   }
 
-  if [[ ! " \${chpwd_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
-    chpwd_functions+=(__colorful_carbon_fetch)
-  fi
-  if [[ ! " \${preexec_functions[@]} " =~ " __colorful_carbon_fetch " ]]; then
-    preexec_functions+=(__colorful_carbon_fetch)
-  fi
+${hooks}
   __colorful_carbon_fetch
-fi
+fi`;
+}
 
-# Initialize Starship prompt
-eval "$(starship init zsh)"
+/**
+ * Get the sh script of one background fetch, run as: sh -c '<script>' sh <repo> <now> <cache file> <lock file>
+ * It journals failures with their error class in <cache file>.errors and clears them on success.
+ * No single quotes inside: every shell wraps it in them.
+ */
+function getFetchJobScript(policy: SmartFetchPolicy): string {
+    const errorCases = FETCH_ERROR_PATTERNS
+        .map(([errorClass, patterns]) => `${patterns.map(pattern => `*"${pattern}"*`).join('|')}) class=${errorClass} ;;`)
+        .join('\n        ');
+
+    return `cd "$1" || exit
+      echo "$$ $2" > "$4"
+      if err=$(git ${getFetchArgs(policy).join(' ')} 2>&1 >/dev/null); then
+        echo "$2" > "$3"
+        rm -f "$3.errors"
+      else
+        case "$err" in
+        ${errorCases}
+        *) class=other ;;
+        esac
+        message=$(printf "%s\\n" "$err" | grep -E "^(fatal|error): " | head -n 1 | tr "\\t" " ")
+        { cat "$3.errors" 2>/dev/null; printf "%s\\t%s\\t%s\\n" "$(date +%s)" "$class" "\${message:-git fetch failed}"; } \\
+          | tail -n ${MAX_JOURNALED_FAILURES} > "$3.errors.tmp" && mv "$3.errors.tmp" "$3.errors"
+      fi
+      rm -f "$4"`;
+}
+
+/**
+ * Get the colorfulCarbon.smartFetch.* settings (invalid remote names are dropped)
+ */
+function getSmartFetchPolicy(): SmartFetchPolicy {
+    const config = vscode.workspace.getConfiguration('colorfulCarbon.smartFetch');
+    const defaults = DEFAULT_SMART_FETCH_POLICY;
+
+    return {
+        intervalMinutes: Math.max(1, config.get('interval', defaults.intervalMinutes)),
+        remotes: config.get<string[]>('remotes', defaults.remotes).filter(isValidRemoteName),
+        prune: config.get('prune', defaults.prune),
+        tags: config.get('tags', defaults.tags),
+        include: config.get<string[]>('include', defaults.include),
+        exclude: config.get<string[]>('exclude', defaults.exclude),
+        freshnessMinutes: Math.max(1, config.get('freshnessWindow', defaults.freshnessMinutes))
+    };
+}
+
+/**
+ * Get the colorfulCarbon.remotes.* settings (invalid names fall back to origin or are dropped)
+ */
+function getRemoteSettings(): RemoteSettings {
+    const config = vscode.workspace.getConfiguration('colorfulCarbon.remotes');
+    const primary = config.get('primary', 'origin');
+
+    return {
+        primary: isValidRemoteName(primary) ? primary : 'origin',
+        secondary: [...new Set(config.get<string[]>('secondary', []).filter(isValidRemoteName))]
+            .filter(remote => remote !== primary)
+    };
+}
+
+/**
+ * Get the colorfulCarbon.prompt.* settings (unknown modules are dropped)
+ */
+function getPromptLayout(): PromptLayout {
+    const config = vscode.workspace.getConfiguration('colorfulCarbon.prompt');
+    const defaults = DEFAULT_PROMPT_LAYOUT;
+
+    return {
+        modules: normalizePromptModules(config.get<string[]>('modules', defaults.modules)),
+        timeFormat: config.get('timeFormat', defaults.timeFormat) || defaults.timeFormat,
+        twoLine: config.get<string>('layout', 'two-line') !== 'single-line',
+        hostnameSshOnly: config.get('hostnameSshOnly', defaults.hostnameSshOnly),
+        directoryTruncation: Math.max(0, Math.floor(config.get('directoryTruncation', defaults.directoryTruncation)))
+    };
+}
+
+// Helper: Quote a value for sh/zsh/bash
+function quotePosix(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Helper: Quote a value for fish
+function quoteFish(value: string): string {
+    return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+/**
+ * Get the shell lines that skip repositories outside the include/exclude globs
+ * Empty when every repository is fetched
+ */
+function getFetchPathFilter(shell: ShellType, policy: SmartFetchPolicy): string {
+    if (policy.include.length === 0 && policy.exclude.length === 0) {
+        return '';
+    }
+
+    if (shell === 'fish') {
+        const includeCheck = policy.include.length === 0 ? '' : `
+            set -l included 0
+            for pattern in ${policy.include.map(quoteFish).join(' ')}
+                string match -q -- (string replace -r '^~' $HOME -- $pattern) $repo_root; and set included 1
+            end
+            test $included -eq 1; or return`;
+        const excludeCheck = policy.exclude.length === 0 ? '' : `
+            for pattern in ${policy.exclude.map(quoteFish).join(' ')}
+                string match -q -- (string replace -r '^~' $HOME -- $pattern) $repo_root; and return
+            end`;
+        return `
+            # Only repositories matched by colorfulCarbon.smartFetch.include / exclude${includeCheck}${excludeCheck}
+`;
+    }
+
+    // zsh only treats a parameter as a pattern with the ~ flag
+    const glob = shell === 'zsh' ? '${~pattern}' : '$pattern';
+    const includeCheck = policy.include.length === 0 ? '' : `
+    local included=0
+    for pattern in ${policy.include.map(quotePosix).join(' ')}; do
+      pattern="\${pattern/#\\~/$HOME}"
+      [[ "$repo_root" == ${glob} ]] && included=1
+    done
+    (( included )) || return`;
+    const excludeCheck = policy.exclude.length === 0 ? '' : `
+    for pattern in ${policy.exclude.map(quotePosix).join(' ')}; do
+      pattern="\${pattern/#\\~/$HOME}"
+      [[ "$repo_root" == ${glob} ]] && return
+    done`;
+    return `
+    # Only repositories matched by colorfulCarbon.smartFetch.include / exclude
+    local pattern${includeCheck}${excludeCheck}
+`;
+}
+
+/**
+ * Get the line pointing starship at the layered config (zsh and bash)
+ * A window's variant (COLORFUL_CARBON_THEME) comes with its own STARSHIP_CONFIG, which is kept
+ */
+function getStarshipConfigExport(layeredPath = HOME_FILE_LOCATIONS.starshipConfig): string {
+    return `[[ -z "$COLORFUL_CARBON_THEME" && -f "${layeredPath}" ]] && export STARSHIP_CONFIG="${layeredPath}"`;
+}
+
+/**
+ * Get the colorfulCarbon.terminalRefresh setting
+ */
+function getTerminalRefreshMode(): TerminalRefreshMode {
+    const mode = getColorfulCarbonConfig().get<string>('terminalRefresh', 'nextPrompt');
+    return mode === 'never' || mode === 'idle' ? mode : 'nextPrompt';
+}
+
+/**
+ * Get the in-place theme reload and the hook that runs it when the window's variant changes
+ * The variant comes from the window's theme file (COLORFUL_CARBON_THEME_FILE), else the theme marker;
+ * switching means pointing STARSHIP_CONFIG and COLORFUL_CARBON_THEME at it - no exec, the shell keeps its state
+ */
+function getThemeRefreshContent(
+    shell: ShellType,
+    locations: GeneratedFileLocations = HOME_FILE_LOCATIONS,
+    mode: TerminalRefreshMode = getTerminalRefreshMode()
+): string {
+    const variantConfig = `${locations.variantsDir}/$1.starship.toml`;
+
+    if (shell === 'fish') {
+        const fishVariantConfig = `${locations.variantsDir}/$argv[1].starship.toml`;
+        const hook = mode === 'never' ? '' : `
+
+    # Repaint before the next prompt when the window's variant changed (colorfulCarbon.terminalRefresh: ${mode})
+    function __colorful_carbon_refresh_theme --on-event fish_prompt
+${mode === 'idle' ? `        jobs -q; and return  # Only when idle: no jobs running or stopped in this shell
+` : ''}        set -l variant (__colorful_carbon_window_theme)
+        test -n "$variant"; and test "$variant" != "$COLORFUL_CARBON_THEME"; and __colorful_carbon_apply_theme $variant
+    end`;
+
+        return `    # Variant the window shows now: its theme file in VS Code terminals, else the theme marker
+    function __colorful_carbon_window_theme
+        set -l theme_file "${locations.themeMarker}"
+        set -q COLORFUL_CARBON_THEME_FILE; and set theme_file $COLORFUL_CARBON_THEME_FILE
+        test -f "$theme_file"; or return
+        read -l variant < "$theme_file"
+        echo $variant
+    end
+
+    # Show a variant in this shell: its starship config, and its git colors through the git() wrapper
+    function __colorful_carbon_apply_theme
+        test -f "${fishVariantConfig}"; or return 1
+        set -gx COLORFUL_CARBON_THEME $argv[1]
+        set -gx STARSHIP_CONFIG "${fishVariantConfig}"
+    end
+
+    # Reload the theme for theme changes - in place, the shell keeps its state
+    function colorful_carbon_reload
+        __colorful_carbon_apply_theme (__colorful_carbon_window_theme); or echo "Colorful Carbon: no variant to reload" >&2
+    end${hook}`;
+    }
+
+    const hook = mode === 'never' ? '' : shell === 'zsh' ? `
 
-# Reload starship helper function for theme changes
+# Repaint before the next prompt when the window's variant changed (colorfulCarbon.terminalRefresh: ${mode})
+__colorful_carbon_refresh_theme() {
+${mode === 'idle' ? `    (( \${#jobstates} )) && return  # Only when idle: no jobs running or stopped in this shell
+` : ''}    __colorful_carbon_window_theme
+    [[ -n "$REPLY" && "$REPLY" != "$COLORFUL_CARBON_THEME" ]] && __colorful_carbon_apply_theme "$REPLY"
+}
+if [[ ! " \${precmd_functions[@]} " =~ " __colorful_carbon_refresh_theme " ]]; then
+    precmd_functions+=(__colorful_carbon_refresh_theme)
+fi` : `
+
+# Repaint before the next prompt when the window's variant changed (colorfulCarbon.terminalRefresh: ${mode})
+# Runs ahead of starship's hook so the prompt is drawn with the new config; $? is preserved
+__colorful_carbon_refresh_theme() {
+    local last_status=$?
+${mode === 'idle' ? `    [[ -n "$(jobs -p)" ]] && return $last_status  # Only when idle: no jobs running or stopped in this shell
+` : ''}    __colorful_carbon_window_theme
+    [[ -n "$REPLY" && "$REPLY" != "$COLORFUL_CARBON_THEME" ]] && __colorful_carbon_apply_theme "$REPLY"
+    return $last_status
+}
+if [[ "$PROMPT_COMMAND" != *__colorful_carbon_refresh_theme* ]]; then
+    PROMPT_COMMAND="__colorful_carbon_refresh_theme\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi`;
+
+    return `# Variant the window shows now, in REPLY: its theme file in VS Code terminals, else the theme marker
+__colorful_carbon_window_theme() {
+    REPLY=
+    { read -r REPLY < "\${COLORFUL_CARBON_THEME_FILE:-${locations.themeMarker}}"; } 2>/dev/null
+}
+
+# Show a variant in this shell: its starship config${shell === 'zsh' ? ', highlight styles' : ''} and git colors (through the git() wrapper)
+__colorful_carbon_apply_theme() {
+    [[ -f "${variantConfig}" ]] || return 1
+    export COLORFUL_CARBON_THEME="$1"
+    export STARSHIP_CONFIG="${variantConfig}"${shell === 'zsh' ? `
+    __colorful_carbon_highlight_styles "$1"` : ''}
+}
+
+# Reload the theme for theme changes - in place, the shell keeps its state
 colorful_carbon_reload() {
-    exec zsh
+    __colorful_carbon_window_theme
+    __colorful_carbon_apply_theme "$REPLY" || echo "Colorful Carbon: no variant to reload" >&2
+}${hook}`;
 }
 
-# Force color support for git
+/**
+ * Get git color environment, theme-aware git() wrapper and aliases
+ */
+function getGitWrapperContent(shell: Exclude<ShellType, 'fish'>, variantsDir = HOME_FILE_LOCATIONS.variantsDir): string {
+    const firstPipeStatus = shell === 'zsh' ? '$pipestatus[1]' : '\${PIPESTATUS[0]}';
+
+    return `# Force color support for git
 export TERM=xterm-256color
 
 # Git color configuration
 export GIT_PAGER='less -R'
 export LESS='-R'
 
-# Git wrapper to colorize branch names based on theme
+# Git wrapper - git keeps the terminal (editors, pagers, prompts, progress and exit codes
+# all work as usual); only the branch names git status prints uncolored get the branch color.
+# Everything else, checkout and switch included, goes straight to git with the variant's color config
 git() {
-    # Re-read theme file on EVERY execution for dynamic updates
-    local CURRENT_CC_THEME="default"
-    if [[ -f ~/.colorful-carbon-theme ]]; then
-        CURRENT_CC_THEME=$(cat ~/.colorful-carbon-theme)
-    fi
-
-    # Call the real git command and capture output
-    local output=$(command git "$@" 2>&1)
-    local exit_code=$?
+    local exit_code
+
+    case "$1" in
+      status|st)
+        # Pipes and color.ui=never get git's output untouched
+        if [[ -t 1 ]] && [[ "$(__colorful_carbon_git config --get-colorbool color.status true)" == "true" ]]; then
+          __colorful_carbon_git -c color.status=always "$@" | __colorful_carbon_color_branches
+          exit_code=${firstPipeStatus}
+        else
+          __colorful_carbon_git "$@"
+          exit_code=$?
+        fi
+        ;;
+      *)
+        __colorful_carbon_git "$@"
+        exit_code=$?
+        ;;
+    esac
 
     # Update fetch cache on successful pull/fetch (for smart auto-fetch)
     if [[ $exit_code -eq 0 ]] && [[ -z "$COLORFUL_CARBON_DISABLE_AUTOFETCH" ]]; then
       case "$1" in
         pull|fetch)
-          if git rev-parse --git-dir >/dev/null 2>&1; then
-            local repo_root=$(git rev-parse --show-toplevel 2>/dev/null)
+          if command git rev-parse --git-dir >/dev/null 2>&1; then
+            local repo_root=$(command git rev-parse --show-toplevel 2>/dev/null)
             if [[ -n "$repo_root" ]]; then
               local cache_dir="$HOME/.git-fetch-cache"
               local hash
@@ -1127,27 +3053,33 @@ git() {
               fi
               local cache_file="$cache_dir/$hash"
               mkdir -p "$cache_dir" 2>/dev/null && echo $(date +%s) > "$cache_file" 2>/dev/null
+              printf "%s\\n" "$repo_root" > "$cache_file.path" 2>/dev/null
+              rm -f "$cache_file.errors"
             fi
           fi
           ;;
       esac
     fi
 
-    # Only colorize if it's a command that shows branches
-    if [[ "$1" == "status" || "$1" == "st" || "$1" == "checkout" || "$1" == "branch" || "$1" == "log" || "$1" == "merge" || "$1" == "rebase" || "$1" == "cherry-pick" || "$1" == "switch" ]]; then
-        # Apply theme-based coloring to branch names
-        if [[ "$CURRENT_CC_THEME" == "dark-knight" ]]; then
-            # Yellow for dark-knight theme
-            echo "$output" | sed -E "s/(On branch |Switched to branch |Your branch is [^']*'|Merge branch '|Rebase branch ')([^'[:space:]]+)/\\1$(printf '\\033[33;1m')\\2$(printf '\\033[0m')/g"
-        else
-            # Magenta for default theme
-            echo "$output" | sed -E "s/(On branch |Switched to branch |Your branch is [^']*'|Merge branch '|Rebase branch ')([^'[:space:]]+)/\\1$(printf '\\033[35;1m')\\2$(printf '\\033[0m')/g"
-        fi
+    return $exit_code
+}
+
+# git with the colors of this window's variant (COLORFUL_CARBON_THEME), else the global color file
+__colorful_carbon_git() {
+    local variant_colors="${variantsDir}/$COLORFUL_CARBON_THEME.gitconfig"
+    if [[ -n "$COLORFUL_CARBON_THEME" && -f "$variant_colors" ]]; then
+        command git -c "include.path=$variant_colors" "$@"
     else
-        echo "$output"
+        command git "$@"
     fi
+}
 
-    return $exit_code
+# Paint the upstream branch in git status with git's own branch color (set per variant in our gitconfig)
+__colorful_carbon_color_branches() {
+    local branch_color reset
+    branch_color=$(__colorful_carbon_git config --get-color color.status.branch '${PALETTES[0].git.branch}')
+    reset=$(__colorful_carbon_git config --get-color '' reset)
+    sed -E "s/(Your branch is [^']*')([^']+)/\\1\${branch_color}\\2\${reset}/g"
 }
 
 # Simple git aliases (using the wrapper)
@@ -1161,14 +3093,28 @@ alias glog='git log --oneline -10'
  */
 async function updateStarshipConfig(themeName: string): Promise<void> {
     const themeType = getThemeType(themeName);
-    const starshipContent = getStarshipContent(themeType);
+    if (isProfileMode()) {
+        writeTerminalProfile(themeType);
+        return;
+    }
 
-    const starshipPath = getHomeFilePath(FILE_PATHS.STARSHIP_CONFIG);
-    const markerPath = getHomeFilePath(FILE_PATHS.THEME_MARKER);
+    const starshipFiles = getStarshipFiles(themeType);
+
+    // Write starship files (the user's own file is backed up before its one-time cleanup)
+    starshipFiles.forEach(file => {
+        if (file.before === file.after) {
+            return;
+        }
+        if (file.relativePath === FILE_PATHS.STARSHIP_CONFIG && isStarshipLayered()) {
+            backupHomeFile(file.relativePath, 'upgrade');
+        }
+        fs.mkdirSync(path.dirname(getHomeFilePath(file.relativePath)), { recursive: true });
+        fs.writeFileSync(getHomeFilePath(file.relativePath), file.after);
+    });
+    writeThemeMarker(themeType);
 
-    // Write both files
-    fs.writeFileSync(starshipPath, starshipContent);
-    fs.writeFileSync(markerPath, themeType);
+    // Starship reads the last file (the generated config in layered mode)
+    const starshipPath = getHomeFilePath(starshipFiles[starshipFiles.length - 1].relativePath);
 
     // Only sync starship config before terminal reload (marker doesn't need sync)
     const fd = fs.openSync(starshipPath, 'r');
@@ -1182,50 +3128,19 @@ async function updateStarshipConfig(themeName: string): Promise<void> {
 /**
  * Get Starship theme configuration content for the specified theme type
  */
-function getStarshipContent(themeType: 'default' | 'dark-knight'): string {
+function getStarshipContent(
+    themeType: VariantId,
+    layout: PromptLayout = getPromptLayout(),
+    gitPromptPath: string = `$HOME/${FILE_PATHS.GIT_PROMPT}`
+): string {
     // Theme-specific colors
-    const colors = themeType === 'dark-knight' ? {
-        themeName: 'Dark Knight',
-        username: 'fg:#6BCB77',
-        hostname: 'fg:#6BCB77',
-        directory: 'fg:#4ECDC4',
-        gitBranch: 'fg:#FFD93D',
-        gitUpstream: 'fg:#C792EA',
-        gitConflict: 'fg:#FF6B6B',
-        nodejs: 'fg:#6BCB77',
-        python: 'fg:#FFD93D',
-        characterSuccess: 'fg:#4D96FF',
-        characterError: 'fg:#FF6B6B',
-        time: 'fg:#9CA3AF'
-    } : {
-        themeName: '',
-        username: 'cyan',
-        hostname: 'cyan',
-        directory: 'blue',
-        gitBranch: 'fg:205',
-        gitUpstream: 'fg:150',
-        gitConflict: 'red',
-        nodejs: 'green',
-        python: 'yellow',
-        characterSuccess: 'green',
-        characterError: 'red',
-        time: 'fg:241'
-    };
+    const colors = getVariantPalette(themeType).prompt;
+    const toolModules = renderToolModules(layout, colors).map(table => `${table}\n\n`).join('');
+    const timeFormat = /^[^'\n]*$/.test(layout.timeFormat) ? `'${layout.timeFormat}'` : JSON.stringify(layout.timeFormat);
 
     return `# Custom Color-Coded Starship Theme${colors.themeName ? ' - ' + colors.themeName : ''}
 
-format = """
-$username\\
-$hostname\\
-$directory\\
-$git_branch\\
-\${custom.git_upstream}\\
-\${custom.git_conflict}\\
-$git_status\\
-$cmd_duration\\
-$time\\
-$line_break\\
-$character"""
+${renderPromptFormat(layout)}
 
 [username]
 style_user = "bold ${colors.username}"
@@ -1235,14 +3150,14 @@ disabled = false
 show_always = true
 
 [hostname]
-ssh_only = false
-format = '[@](white)[$hostname](bold ${colors.hostname}) '
+ssh_only = ${layout.hostnameSshOnly}
+format = '[@](${colors.separator})[$hostname](bold ${colors.hostname}) '
 disabled = false
 
 [directory]
 style = "bold ${colors.directory}"
 format = "[$path]($style) "
-truncation_length = 3
+truncation_length = ${layout.directoryTruncation}
 truncation_symbol = "…/"
 home_symbol = "~"
 read_only = " 🔒"
@@ -1267,7 +3182,49 @@ renamed = ""
 deleted = ""
 up_to_date = ""
 
-# Custom module to show conflict status with branch names
+# Upstream, fetch and conflict segments, all from one run of the git prompt helper
+# Format: -> origin/main ⬆ 2⬇ 1 upstream/main ⬇ 4 ⟳ 2h ✗ auth | branch-A -> branch-C (⚠️ conflicts)
+[custom.git_prompt]
+command = 'sh "${gitPromptPath}" "${starshipStyleToSgr(`bold ${colors.gitUpstream}`)}" "${starshipStyleToSgr(colors.fetchAge)}" "${starshipStyleToSgr(`bold ${colors.fetchFailure}`)}" "${starshipStyleToSgr(`bold ${colors.gitConflict}`)}" "${starshipStyleToSgr(colors.gitRemote)}"'
+when = true
+require_repo = true
+shell = ["sh"]
+format = "$output"
+
+[nodejs]
+symbol = " "
+style = "bold ${colors.nodejs}"
+format = 'via [$symbol($version)]($style) '
+
+[python]
+symbol = "🐍 "
+style = "bold ${colors.python}"
+format = 'via [$symbol($version)(\\($virtualenv\\))]($style) '
+
+${toolModules}[character]
+success_symbol = '[❯](bold ${colors.characterSuccess})'
+error_symbol = '[✖](bold ${colors.characterError})'
+vimcmd_symbol = '[❮](bold ${colors.characterSuccess})'
+
+[line_break]
+disabled = ${!layout.twoLine}
+
+[time]
+disabled = false
+format = ' [$time](bold ${colors.time})'
+time_format = ${timeFormat}${layout.timeFormat === DEFAULT_PROMPT_LAYOUT.timeFormat ? '  # Format: 8 Nov 2024 22:45' : ''}
+utc_time_offset = 'local'
+`;
+}
+
+/**
+ * Get the git modules written before the git prompt helper existed (migration recognises them as ours)
+ * Kept as they were written, so the freshness is the old fixed 900 seconds, not the current policy
+ */
+function getLegacyGitModules(themeType: VariantId): string {
+    const colors = getVariantPalette(themeType).prompt;
+
+    return `# Custom module to show conflict status with branch names
 # Format: branch-A -> branch-C (⚠️ conflicts)
 [custom.git_conflict]
 command = '''
@@ -1395,32 +3352,8 @@ when = "git rev-parse --git-dir 2>/dev/null"
 shell = ["sh"]
 style = "bold ${colors.gitUpstream}"
 format = "[$output]($style)"
-
-[nodejs]
-symbol = " "
-style = "bold ${colors.nodejs}"
-format = 'via [$symbol($version)]($style) '
-
-[python]
-symbol = "🐍 "
-style = "bold ${colors.python}"
-format = 'via [$symbol($version)(\\($virtualenv\\))]($style) '
-
-[character]
-success_symbol = '[❯](bold ${colors.characterSuccess})'
-error_symbol = '[✖](bold ${colors.characterError})'
-vimcmd_symbol = '[❮](bold ${colors.characterSuccess})'
-
-[line_break]
-disabled = false
-
-[time]
-disabled = false
-format = ' [$time](bold ${colors.time})'
-time_format = '%d %b %Y %H:%M'  # Format: 8 Nov 2024 22:45
-utc_time_offset = 'local'
 `;
 }
 
 
-export function deactivate() {}
\ No newline at end of file
+export function deactivate() {}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { FetchCacheEntry, FetchErrorClass, getFetchCacheDir, listFetchCache } from './smartFetch';
+
+export const FETCH_CACHE_VIEW_ID = 'colorful-carbon.fetchCache';
+
+const ERROR_CLASS_LABELS: Record<FetchErrorClass, string> = {
+    'auth': 'authentication failed',
+    'network': 'remote unreachable',
+    'missing-remote': 'remote not found',
+    'other': 'fetch failed'
+};
+
+/**
+ * Format a duration in seconds the way the prompt does: 45s, 12m, 2h, 3d
+ */
+export function formatAge(seconds: number): string {
+    if (seconds < 60) {
+        return `${Math.max(0, Math.floor(seconds))}s`;
+    }
+    if (seconds < 60 * 60) {
+        return `${Math.floor(seconds / 60)}m`;
+    }
+    if (seconds < 24 * 60 * 60) {
+        return `${Math.floor(seconds / (60 * 60))}h`;
+    }
+    return `${Math.floor(seconds / (24 * 60 * 60))}d`;
+}
+
+/**
+ * List the repositories in ~/.git-fetch-cache with their last fetch and lock state
+ */
+export class FetchCacheProvider implements vscode.TreeDataProvider<FetchCacheEntry>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly watcher: vscode.FileSystemWatcher;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor() {
+        // Shells write the cache too, so follow the directory rather than our own actions
+        this.watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(getFetchCacheDir(os.homedir())), '*')
+        );
+        this.watcher.onDidCreate(() => this.refresh());
+        this.watcher.onDidChange(() => this.refresh());
+        this.watcher.onDidDelete(() => this.refresh());
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    getChildren(element?: FetchCacheEntry): FetchCacheEntry[] {
+        if (element) {
+            return [];
+        }
+        // Known repositories by name, unindexed hashes last
+        return listFetchCache(os.homedir()).sort((a, b) =>
+            (a.repoRoot ? 0 : 1) - (b.repoRoot ? 0 : 1) ||
+            (a.repoRoot ?? a.hash).localeCompare(b.repoRoot ?? b.hash)
+        );
+    }
+
+    getTreeItem(entry: FetchCacheEntry): vscode.TreeItem {
+        const now = Date.now();
+        const label = entry.repoRoot ? path.basename(entry.repoRoot) : `Unknown repository ${entry.hash.slice(0, 12)}`;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+
+        const fetched = entry.lastFetch > 0
+            ? `fetched ${formatAge(now / 1000 - entry.lastFetch)} ago`
+            : 'never fetched';
+        const locked = entry.lockedSince !== undefined
+            ? `locked for ${formatAge((now - entry.lockedSince) / 1000)}${entry.lockStale ? ' (stale)' : ''}`
+            : undefined;
+        const lastFailure = entry.failures[entry.failures.length - 1];
+        const failing = lastFailure
+            ? `${ERROR_CLASS_LABELS[lastFailure.errorClass] ?? ERROR_CLASS_LABELS.other}${entry.failures.length > 1 ? ` ×${entry.failures.length}` : ''}`
+            : undefined;
+
+        item.description = [fetched, locked, failing].filter(Boolean).join(' · ');
+        item.tooltip = [
+            entry.repoRoot ?? 'Fetched before the path index existed - open it in a terminal to identify it',
+            entry.lastFetch > 0 ? `Last successful fetch: ${new Date(entry.lastFetch * 1000).toLocaleString()}` : 'No successful fetch yet',
+            locked ? `Lock taken ${new Date(entry.lockedSince!).toLocaleString()} (${locked})` : 'Not locked',
+            ...(entry.failures.length > 0 ? ['', 'Failures since the last successful fetch:'] : []),
+            ...entry.failures.map(failure =>
+                `${new Date(failure.at * 1000).toLocaleString()} [${failure.errorClass}] ${failure.message}`),
+            '',
+            `Cache file: ${entry.cacheFile}`
+        ].join('\n');
+        item.iconPath = new vscode.ThemeIcon(lastFailure ? 'warning' : locked ? 'lock' : 'repo');
+        // Menus key off these: Fetch Now needs a path, Clear Lock a lock
+        item.contextValue = [
+            'fetchCacheEntry',
+            entry.repoRoot ? 'indexed' : undefined,
+            locked ? 'locked' : undefined
+        ].filter(Boolean).join('.');
+
+        return item;
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this.changeEmitter.dispose();
+    }
+}
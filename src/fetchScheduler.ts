@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import {
+    SmartFetchPolicy,
+    acquireFetchLock,
+    clearFetchFailures,
+    getFetchArgs,
+    getFetchCacheFile,
+    isRepositoryIncluded,
+    readLastFetch,
+    recordFetchFailure,
+    releaseFetchLock,
+    writeLastFetch,
+    writeRepositoryPath
+} from './smartFetch';
+
+/*
+ * Fetch scheduler - Smart Git Fetch for the workspace's repositories, run by the extension host
+ *
+ * The shells only fetch when a prompt is drawn; this keeps open repositories fresh in
+ * between. Cache timestamps and lock files are shared with the shells, so whichever
+ * side gets to a repository first fetches it and the other one skips it.
+ */
+
+// How often due repositories are looked for
+const TICK_MS = 60 * 1000;
+
+// A fetch that takes longer is stopped (and counts as a failure)
+const FETCH_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Retry after 1, 2, 4 ... minutes, at most every hour
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+interface FailureState {
+    failures: number;
+    retryAt: number;
+}
+
+// Helper: Run git without ever prompting for credentials (rejects with git's stderr as the message)
+function runGit(args: string[], cwd: string, timeout: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, {
+            cwd,
+            timeout,
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || (error.killed ? 'git fetch timed out' : error.message)));
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
+
+export class FetchScheduler implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly failures = new Map<string, FailureState>();
+    private readonly running = new Set<string>();
+    private repositories: Promise<string[]> = Promise.resolve([]);
+    private timer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param getPolicy Current colorfulCarbon.smartFetch.* settings
+     * @param isEnabled Checked before every round, so the scheduler follows setup and settings
+     */
+    constructor(
+        private readonly getPolicy: () => SmartFetchPolicy,
+        private readonly isEnabled: () => boolean
+    ) {
+        this.discoverRepositories();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.discoverRepositories()),
+            // Pause while unfocused - catch up as soon as the window is used again
+            vscode.window.onDidChangeWindowState(state => state.focused ? this.start() : this.stop())
+        );
+
+        if (vscode.window.state.focused) {
+            this.start();
+        }
+    }
+
+    /**
+     * Fetch every due repository once
+     */
+    async tick(): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const policy = this.getPolicy();
+        const repositories = await this.repositories;
+        await Promise.all(repositories
+            .filter(repoRoot => isRepositoryIncluded(policy, repoRoot, os.homedir()))
+            .map(repoRoot => this.fetchIfDue(repoRoot, policy)));
+    }
+
+    /**
+     * Fetch one repository right away, ignoring interval and backoff
+     * Rejects with git's error; false when a fetch already holds the lock
+     */
+    fetchNow(repoRoot: string): Promise<boolean> {
+        return this.fetch(repoRoot, this.getPolicy());
+    }
+
+    dispose(): void {
+        this.stop();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.safeTick(), TICK_MS);
+        this.safeTick();
+    }
+
+    // A failed round must not reject unhandled - the next tick tries again
+    private safeTick(): void {
+        this.tick().catch(error => {
+            console.error('[Colorful Carbon] Error fetching workspace repositories:', error);
+        });
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private discoverRepositories(): void {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        this.repositories = Promise.all(folders.map(folder =>
+            runGit(['rev-parse', '--show-toplevel'], folder.uri.fsPath, 10 * 1000).catch(() => '')
+        )).then(roots => [...new Set(roots.filter(root => root !== ''))]);
+    }
+
+    private async fetchIfDue(repoRoot: string, policy: SmartFetchPolicy): Promise<void> {
+        const now = Date.now();
+        const failure = this.failures.get(repoRoot);
+        if (this.running.has(repoRoot) || (failure && now < failure.retryAt)) {
+            return;
+        }
+
+        const cacheFile = getFetchCacheFile(os.homedir(), repoRoot);
+        if (Math.floor(now / 1000) - readLastFetch(cacheFile) < policy.intervalMinutes * 60) {
+            return;
+        }
+
+        try {
+            await this.fetch(repoRoot, policy);
+        } catch {
+            // Offline or unreachable remote - back off instead of retrying every minute
+            const failures = (failure?.failures ?? 0) + 1;
+            const delay = Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+            this.failures.set(repoRoot, { failures, retryAt: Date.now() + delay });
+        }
+    }
+
+    private async fetch(repoRoot: string, policy: SmartFetchPolicy): Promise<boolean> {
+        const cacheFile = getFetchCacheFile(os.homedir(), repoRoot);
+        const fetchedAt = Math.floor(Date.now() / 1000);
+
+        // A shell (or another window) is already fetching this repository
+        if (this.running.has(repoRoot) || !acquireFetchLock(cacheFile)) {
+            return false;
+        }
+
+        this.running.add(repoRoot);
+        try {
+            writeRepositoryPath(cacheFile, repoRoot);
+            await runGit(getFetchArgs(policy), repoRoot, FETCH_TIMEOUT_MS);
+            writeLastFetch(cacheFile, fetchedAt);
+            clearFetchFailures(cacheFile);
+            this.failures.delete(repoRoot);
+            return true;
+        } catch (error) {
+            // Journal it where the shells journal theirs, so the cache view shows both
+            recordFetchFailure(cacheFile, error instanceof Error ? error.message : String(error));
+            throw error;
+        } finally {
+            releaseFetchLock(cacheFile);
+            this.running.delete(repoRoot);
+        }
+    }
+}
@@ -0,0 +1,102 @@
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+
+/*
+ * Git colors live in a file of their own, linked from the global gitconfig:
+ *
+ *   # Colorful Carbon colors - ...
+ *   [include]
+ *       path = ~/.config/colorful-carbon/gitconfig
+ *
+ * The link is appended at the end so our colors win over earlier values, and
+ * removing it restores the user's own colors without touching anything else.
+ */
+
+const INCLUDE_COMMENT = '# Colorful Carbon colors - removed by "Colorful Carbon: Remove Terminal Configuration"';
+
+// Helper: Escape text for use inside a RegExp
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Get the file `git config --global` writes to
+ * git prefers ~/.gitconfig and only uses the XDG file when that is the one that exists
+ */
+export function getGlobalGitConfigPath(fileExists: (filePath: string) => boolean): string {
+    const homeConfig = path.join(os.homedir(), '.gitconfig');
+    const xdgConfig = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'git', 'config');
+    return !fileExists(homeConfig) && fileExists(xdgConfig) ? xdgConfig : homeConfig;
+}
+
+/**
+ * Render [key, value] pairs such as ['color.status.branch', 'magenta bold'] as a gitconfig file
+ * Values are quoted because # starts a comment in gitconfig and hex colors begin with it
+ */
+export function renderGitConfig(settings: [string, string][], header: string): string {
+    const sections = new Map<string, string[]>();
+
+    settings.forEach(([key, value]) => {
+        const parts = key.split('.');
+        const name = parts.pop()!;
+        const [section, ...subsection] = parts;
+        const heading = subsection.length > 0 ? `[${section} "${subsection.join('.')}"]` : `[${section}]`;
+        const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+        sections.set(heading, [...(sections.get(heading) ?? []), `\t${name} = "${escaped}"`]);
+    });
+
+    const body = [...sections].map(([heading, lines]) => [heading, ...lines].join('\n')).join('\n');
+    return `${header}\n${body}\n`;
+}
+
+/**
+ * Check if a gitconfig links the include path
+ */
+export function hasInclude(content: string, includePath: string): boolean {
+    return new RegExp(`^\\s*path\\s*=\\s*"?${escapeRegExp(includePath)}"?\\s*$`, 'm').test(content);
+}
+
+/**
+ * Append the include link at the end of a gitconfig (unchanged if already linked)
+ */
+export function addInclude(content: string, includePath: string): string {
+    if (hasInclude(content, includePath)) {
+        return content;
+    }
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+    return `${content}${separator}${INCLUDE_COMMENT}\n[include]\n\tpath = ${includePath}\n`;
+}
+
+/**
+ * Remove the include link we appended, leaving the rest of the gitconfig as it was
+ * Content stays unchanged when the user moved the line elsewhere - see unsetGlobalInclude
+ */
+export function removeInclude(content: string, includePath: string): string {
+    const block = new RegExp(
+        `(?:${escapeRegExp(INCLUDE_COMMENT)}\\n)?\\[include\\]\\n\\s*path\\s*=\\s*"?${escapeRegExp(includePath)}"?\\s*\\n?`
+    );
+    return content.replace(block, '');
+}
+
+/**
+ * Remove an include link from the global gitconfig with git itself
+ */
+export function unsetGlobalInclude(includePath: string): void {
+    try {
+        execSync(`git config --global --unset-all include.path '^"?${escapeRegExp(includePath)}"?$'`, { stdio: 'ignore' });
+    } catch {
+        // Exit code 5: nothing to unset
+    }
+}
+
+/**
+ * Read a global git config value as the user set it, ignoring included files
+ */
+export function getUserGitConfig(key: string): string | undefined {
+    try {
+        return execSync(`git config --global --no-includes --get ${key}`, { encoding: 'utf8' }).trim();
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,396 @@
+/*
+ * Git prompt helper - the upstream, fetch and conflict segments of the prompt in one pass
+ *
+ * Starship runs the generated sh script once per prompt and it prints every segment in
+ * its own color. The repository is found without starting git, and the answer is cached
+ * in the git dir until HEAD, a ref or the config changes, so most prompts start no git
+ * process at all. Counting commits runs under a time budget: when it runs out the prompt
+ * shows the upstream with ⋯ and keeps that answer until the repository changes again.
+ */
+
+export interface GitPromptOptions {
+    // Seconds a fetch stays recent enough to claim "(#synced)" (older ones show their age)
+    freshnessSeconds: number;
+    // Push remote of branches that name none (no pushRemote, remote.pushDefault or remote)
+    primaryRemote: string;
+    // Remotes whose ahead/behind is shown as well, e.g. "upstream" in a fork
+    secondaryRemotes: string[];
+}
+
+// Starship stops custom commands after its 500ms command_timeout - give up well before that
+export const GIT_PROMPT_BUDGET_MS = 300;
+
+// Bump when the cache lines change so caches written by older helpers are recomputed
+const CACHE_VERSION = 2;
+
+const NAMED_COLORS: Record<string, number> = {
+    black: 0,
+    red: 1,
+    green: 2,
+    yellow: 3,
+    blue: 4,
+    purple: 5,
+    magenta: 5,
+    cyan: 6,
+    white: 7
+};
+
+const TEXT_STYLES: Record<string, string> = {
+    bold: '1',
+    dimmed: '2',
+    italic: '3',
+    underline: '4'
+};
+
+/**
+ * Turn a starship style ("bold fg:150", "red", "fg:#8A6100") into SGR parameters ("1;38;5;150")
+ * Unknown words are skipped, like starship does
+ */
+export function starshipStyleToSgr(style: string): string {
+    return style.split(/\s+/).filter(Boolean).flatMap(word => {
+        const token = word.toLowerCase();
+        if (TEXT_STYLES[token]) {
+            return [TEXT_STYLES[token]];
+        }
+
+        const background = token.startsWith('bg:');
+        const color = token.replace(/^[fb]g:/, '');
+        const hex = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/);
+        if (hex) {
+            return [`${background ? 48 : 38};2;${hex.slice(1).map(part => parseInt(part, 16)).join(';')}`];
+        }
+        if (/^\d+$/.test(color) && Number(color) < 256) {
+            return [`${background ? 48 : 38};5;${color}`];
+        }
+
+        const bright = color.startsWith('bright-');
+        const named = NAMED_COLORS[color.replace(/^bright-/, '')];
+        if (named === undefined) {
+            return [];
+        }
+        return [String((background ? 40 : 30) + (bright ? 60 : 0) + named)];
+    }).join(';');
+}
+
+/**
+ * Get the helper script (sh)
+ * Called as: sh git-prompt.sh <upstream> <fetch age> <fetch failure> <conflict> <secondary remotes>, each an SGR color
+ * Remote names must be valid (isValidRemoteName) - they are written unquoted
+ */
+export function getGitPromptScript(options: GitPromptOptions): string {
+    const budgetSeconds = (GIT_PROMPT_BUDGET_MS / 1000).toFixed(1);
+
+    return `#!/bin/sh
+# Generated by Colorful Carbon - the git segments of the prompt in one pass.
+# Rewritten on every theme change; starship runs it once per prompt.
+# Usage: git-prompt.sh <upstream> <fetch age> <fetch failure> <conflict> <secondary remotes> (SGR colors)
+
+FRESHNESS=${options.freshnessSeconds}
+PRIMARY_REMOTE='${options.primaryRemote}'
+SECONDARY_REMOTES='${options.secondaryRemotes.join(' ')}'
+BUDGET=${budgetSeconds}
+VERSION=${CACHE_VERSION}
+
+# Find the git dir without starting git
+dir=$PWD
+git_dir=
+while [ -z "$git_dir" ]; do
+  if [ -d "$dir/.git" ]; then
+    git_dir="$dir/.git"
+  elif [ -f "$dir/.git" ]; then
+    # Worktrees and submodules: .git is a "gitdir: <path>" file
+    read -r git_dir < "$dir/.git"
+    git_dir=\${git_dir#gitdir: }
+    case $git_dir in /*) ;; *) git_dir="$dir/$git_dir" ;; esac
+  elif [ -z "$dir" ]; then
+    exit 0
+  else
+    dir=\${dir%/*}
+  fi
+done
+cache="$git_dir/colorful-carbon-prompt"
+
+# Helper: Read a cache file; stale once a watched file changed after it was written
+load() {
+  version= hash= upstream= ahead= behind= remote= remote_ahead= remote_behind= secondary= conflict= slow= watched= stale=
+  while IFS='\t' read -r key value; do
+    case $key in
+      version) version=$value ;;
+      hash) hash=$value ;;
+      upstream) upstream=$value ;;
+      ahead) ahead=$value ;;
+      behind) behind=$value ;;
+      remote) remote=$value ;;
+      remote_ahead) remote_ahead=$value ;;
+      remote_behind) remote_behind=$value ;;
+      secondary) secondary="$secondary $value" ;;
+      conflict) conflict=$value ;;
+      slow) slow=$value ;;
+      watch) watched=1; [ "$value" -nt "$1" ] && stale=1 ;;
+    esac
+  done < "$1"
+}
+
+# Helper: Run git, noting its pid so the watchdog can stop it (killing the worker alone would orphan git)
+git() {
+  command git "$@" &
+  echo "$!" > "$tmp.git"
+  wait "$!"
+}
+
+# Helper: Collect everything the segments need, cheapest first (a timed out run keeps what it got)
+collect() {
+  info=$(git rev-parse --git-common-dir --show-toplevel --abbrev-ref HEAD @{upstream} 2>/dev/null)
+  { read -r common_dir; read -r repo_root; read -r current; read -r upstream; } <<EOF
+$info
+EOF
+  [ -n "$repo_root" ] || return 0
+  case $common_dir in /*) ;; *) common_dir="$PWD/$common_dir" ;; esac
+  [ "$current" = HEAD ] && current=
+
+  printf 'version\\t%s\\n' "$VERSION"
+
+  # Everything that changes the answer touches one of these (refs are renamed into their directory)
+  for file in "$git_dir/HEAD" "$git_dir/logs/HEAD" "$git_dir/FETCH_HEAD" "$git_dir/MERGE_HEAD" \\
+      "$git_dir/rebase-merge" "$git_dir/rebase-apply" "$common_dir/FETCH_HEAD" "$common_dir/packed-refs" \\
+      "$common_dir/config" "$common_dir/refs/heads/$current" "$common_dir/refs/remotes/$upstream"; do
+    case $file in
+      */refs/*) printf 'watch\\t%s\\n' "\${file%/*}" ;;
+      *) printf 'watch\\t%s\\n' "$file" ;;
+    esac
+  done
+
+  # Fetch cache key (same hash the shells use)
+  if command -v shasum >/dev/null 2>&1; then
+    hash=$(printf "%s" "$repo_root" | shasum -a 256 2>/dev/null)
+    hash=\${hash%% *}
+  elif command -v sha256sum >/dev/null 2>&1; then
+    hash=$(printf "%s" "$repo_root" | sha256sum 2>/dev/null)
+    hash=\${hash%% *}
+  else
+    hash=$(printf "%s" "$repo_root" | sed 's/\\//_/g')
+  fi
+  printf 'hash\\t%s\\n' "$hash"
+
+  # Merge or rebase in progress: branch-A -> branch-C (⚠️ conflicts)
+  conflict=
+  if [ -f "$git_dir/MERGE_HEAD" ]; then
+    merge_branch=
+    if [ -f "$git_dir/MERGE_MSG" ]; then
+      read -r message < "$git_dir/MERGE_MSG"
+      case $message in
+        "Merge branch '"*"'"*) merge_branch=\${message#"Merge branch '"} ;;
+        "Merge remote-tracking branch '"*"'"*) merge_branch=\${message#"Merge remote-tracking branch '"} ;;
+      esac
+      merge_branch=\${merge_branch%%"'"*}
+    fi
+    if [ -n "$merge_branch" ] && [ -n "$current" ]; then
+      conflict="| $current -> $merge_branch (⚠️ conflicts) "
+    elif [ -n "$current" ]; then
+      conflict="| $current (⚠️ merge conflicts) "
+    else
+      conflict="| ⚠️ merge conflicts "
+    fi
+  elif [ -d "$git_dir/rebase-merge" ]; then
+    # HEAD is detached while rebasing - the branch being rebased is in head-name
+    rebasing=
+    onto_branch=
+    [ -f "$git_dir/rebase-merge/head-name" ] && read -r rebasing < "$git_dir/rebase-merge/head-name"
+    rebasing=\${rebasing#refs/heads/}
+    if [ -f "$git_dir/rebase-merge/onto" ]; then
+      read -r onto < "$git_dir/rebase-merge/onto"
+      # Only a branch pointing right at it - name-rev would walk the whole history
+      for ref in $(git for-each-ref --points-at="$onto" --format='%(refname:short)' refs/heads refs/remotes 2>/dev/null); do
+        case $ref in */HEAD) ;; *) onto_branch=$ref; break ;; esac
+      done
+    fi
+    if [ -n "$onto_branch" ] && [ -n "$rebasing" ]; then
+      conflict="| $rebasing -> $onto_branch (⚠️ rebase conflicts) "
+    elif [ -n "$rebasing" ]; then
+      conflict="| $rebasing (⚠️ rebase conflicts) "
+    else
+      conflict="| ⚠️ rebase conflicts "
+    fi
+  elif [ -d "$git_dir/rebase-apply" ]; then
+    conflict="| ⚠️ rebase conflicts "
+  fi
+  printf 'conflict\\t%s\\n' "$conflict"
+
+  push_ref=
+  if [ -n "$upstream" ]; then
+    printf 'upstream\\t%s\\n' "$upstream"
+
+    # Ahead and behind in one walk (the part that gets slow in huge histories)
+    counts=$(git rev-list --left-right --count 'HEAD...@{upstream}' 2>/dev/null)
+    printf 'ahead\\t%s\\nbehind\\t%s\\n' "\${counts%%\t*}" "\${counts##*\t}"
+
+    # Where the branch is pushed: pushRemote, remote.pushDefault, its remote, then the primary remote
+    push_remote=
+    default_push=
+    branch_remote=
+    if [ -n "$current" ]; then
+      while read -r key value; do
+        case $key in
+          "branch.$current.pushremote") push_remote=$value ;;
+          remote.pushdefault) default_push=$value ;;
+          "branch.$current.remote") branch_remote=$value ;;
+        esac
+      done <<EOF
+$(git config --get-regexp '^branch\\..*\\.(push)?remote$|^remote\\.pushdefault$' 2>/dev/null)
+EOF
+      push_ref="\${push_remote:-\${default_push:-\${branch_remote:-$PRIMARY_REMOTE}}}/$current"
+      printf 'watch\\t%s\\n' "$common_dir/refs/remotes/\${push_ref%/*}"
+
+      # The pushed branch when the branch tracks something else
+      if [ "$upstream" != "$push_ref" ]; then
+        counts=$(git rev-list --left-right --count "HEAD...refs/remotes/$push_ref" 2>/dev/null) &&
+          printf 'remote\\t%s\\nremote_ahead\\t%s\\nremote_behind\\t%s\\n' "$push_ref" "\${counts%%\t*}" "\${counts##*\t}"
+      fi
+    fi
+  fi
+
+  # Secondary remotes: their copy of the branch, else their default branch (upstream/main in a fork)
+  for secondary in $SECONDARY_REMOTES; do
+    printf 'watch\\t%s\\n' "$common_dir/refs/remotes/$secondary"
+    ref="$secondary/$current"
+    { [ "$ref" = "$upstream" ] || [ "$ref" = "$push_ref" ]; } && continue
+    counts=
+    [ -n "$current" ] && counts=$(git rev-list --left-right --count "HEAD...refs/remotes/$ref" 2>/dev/null)
+    if [ -z "$counts" ] && [ -f "$common_dir/refs/remotes/$secondary/HEAD" ]; then
+      read -r ref < "$common_dir/refs/remotes/$secondary/HEAD"
+      ref=\${ref#ref: refs/remotes/}
+      counts=$(git rev-list --left-right --count "HEAD...refs/remotes/$ref" 2>/dev/null)
+    fi
+    [ -n "$counts" ] && [ "$ref" != "$upstream" ] && [ "$ref" != "$push_ref" ] || continue
+    # ref:ahead:behind (ref names cannot hold colons or spaces)
+    printf 'secondary\\t%s:%s:%s\\n' "$ref" "\${counts%%\t*}" "\${counts##*\t}"
+  done
+  return 0
+}
+
+if ! { [ -f "$cache" ] && load "$cache" && [ "$version" = "$VERSION" ] && [ -n "$watched" ] && [ -z "$stale" ]; }; then
+  tmp="$cache.$$"
+  if ! { : > "$tmp"; } 2>/dev/null; then
+    # Read-only repository: answer without caching
+    tmp="\${TMPDIR:-/tmp}/colorful-carbon-prompt.$$"
+    cache=
+  fi
+
+  # Time budget: stop waiting for git and keep what was collected (marked slow) until something changes
+  # Fractional sleep is not POSIX - a sleep that only takes whole seconds waits 1s instead
+  collect > "$tmp" 2>/dev/null &
+  worker=$!
+  (
+    sleep "$BUDGET" 2>/dev/null || sleep 1
+    kill "$worker"
+    read -r git_pid < "$tmp.git" && kill "$git_pid"
+  ) >/dev/null 2>&1 &
+  watchdog=$!
+  if wait "$worker" 2>/dev/null; then
+    kill "$watchdog" 2>/dev/null
+  else
+    wait "$watchdog"
+    printf 'slow\\t1\\n' >> "$tmp"
+  fi
+  rm -f "$tmp.git"
+
+  load "$tmp"
+  if [ -n "$cache" ] && [ -n "$watched" ]; then
+    mv -f "$tmp" "$cache"
+  else
+    rm -f "$tmp"
+  fi
+fi
+
+# Fetch cache state is read fresh every time (it ages without the repository changing)
+cache_file="$HOME/.git-fetch-cache/$hash"
+last_fetch=0
+age=0
+if [ -n "$hash" ] && [ -f "$cache_file" ]; then
+  read -r last_fetch < "$cache_file"
+  case $last_fetch in ''|*[!0-9]*) last_fetch=0 ;; esac
+  age=$(( $(date +%s) - last_fetch ))
+fi
+
+# Helper: Print a segment in its color
+paint() {
+  [ -n "$2" ] && printf '\\033[%sm%s\\033[0m' "$1" "$2"
+}
+
+# -> origin/main ⬆ 2⬇ 1 | origin/feature (#synced)
+upstream_text=
+if [ -n "$upstream" ]; then
+  upstream_text="-> $upstream "
+  if [ -n "$slow" ] && [ -z "$ahead" ]; then
+    upstream_text="$upstream_text⋯ "
+  elif [ "\${ahead:-0}" -gt 0 ] || [ "\${behind:-0}" -gt 0 ]; then
+    [ "\${ahead:-0}" -gt 0 ] && upstream_text="$upstream_text⬆ $ahead"
+    [ "\${behind:-0}" -gt 0 ] && upstream_text="$upstream_text⬇ $behind"
+    upstream_text="$upstream_text "
+  elif [ -f "$cache_file" ] && [ $age -lt $FRESHNESS ]; then
+    # Only claim "synced" if the last fetch is recent
+    upstream_text="$upstream_text(#synced)  "
+  fi
+
+  if [ -n "$remote" ]; then
+    upstream_text="$upstream_text| $remote "
+    if [ "\${remote_ahead:-0}" -gt 0 ] || [ "\${remote_behind:-0}" -gt 0 ]; then
+      [ "\${remote_ahead:-0}" -gt 0 ] && upstream_text="$upstream_text⬆ $remote_ahead"
+      [ "\${remote_behind:-0}" -gt 0 ] && upstream_text="$upstream_text⬇ $remote_behind"
+    else
+      upstream_text="$upstream_text(#synced)"
+    fi
+    upstream_text="$upstream_text "
+  fi
+fi
+
+# upstream/main ⬆ 1⬇ 4 for each secondary remote
+secondary_text=
+for entry in $secondary; do
+  ref=\${entry%%:*}
+  entry=\${entry#*:}
+  secondary_ahead=\${entry%:*}
+  secondary_behind=\${entry#*:}
+  secondary_text="$secondary_text$ref "
+  if [ "$secondary_ahead" -gt 0 ] || [ "$secondary_behind" -gt 0 ]; then
+    [ "$secondary_ahead" -gt 0 ] && secondary_text="$secondary_text⬆ $secondary_ahead"
+    [ "$secondary_behind" -gt 0 ] && secondary_text="$secondary_text⬇ $secondary_behind"
+    secondary_text="$secondary_text "
+  elif [ -f "$cache_file" ] && [ $age -lt $FRESHNESS ]; then
+    secondary_text="$secondary_text(#synced) "
+  fi
+done
+
+# ⟳ 2h once the fetched data is older than the freshness window
+age_text=
+if [ -f "$cache_file" ] && [ $age -ge $FRESHNESS ]; then
+  if [ $age -ge 86400 ]; then
+    age_text="⟳ $((age / 86400))d "
+  elif [ $age -ge 3600 ]; then
+    age_text="⟳ $((age / 3600))h "
+  else
+    age_text="⟳ $((age / 60))m "
+  fi
+fi
+
+# ✗ auth - why the background fetch keeps failing (last journaled failure)
+failure_text=
+if [ -n "$hash" ] && [ -s "$cache_file.errors" ]; then
+  failure=
+  while IFS='\t' read -r at class message; do failure=$class; done < "$cache_file.errors"
+  case $failure in
+    auth) failure_text="✗ auth " ;;
+    network) failure_text="✗ offline " ;;
+    missing-remote) failure_text="✗ no remote " ;;
+    *) failure_text="✗ fetch " ;;
+  esac
+fi
+
+paint "$1" "$upstream_text"
+paint "$5" "$secondary_text"
+paint "$2" "$age_text"
+paint "$3" "$failure_text"
+paint "$4" "$conflict"
+exit 0
+`;
+}
@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+
+/*
+ * Managed blocks - the marked section of an rc file that belongs to Colorful Carbon
+ *
+ *   # Colorful Carbon Configuration - START
+ *   # Added by Colorful Carbon VS Code Extension
+ *   # Managed block v3 sha256:0123456789ab - edits are detected before upgrades
+ *   ...body...
+ *   # Colorful Carbon Configuration - END
+ *
+ * The stamp records which content version wrote the block and a hash of its body,
+ * so upgrades replace the block in place and hand edits are noticed first.
+ */
+
+export const BLOCK_MARKERS = {
+    START: '# Colorful Carbon Configuration - START',
+    END: '# Colorful Carbon Configuration - END'
+} as const;
+
+// missing: no block | current: up to date | outdated: safe to replace | modified: hand-edited, whatever its version
+export type BlockState = 'missing' | 'current' | 'outdated' | 'modified';
+
+export interface ManagedBlock {
+    // Content version stamped into the block (0 for blocks written before stamping)
+    version: number;
+    // False when the body no longer matches its stamped hash
+    pristine: boolean;
+    // The whole block, marker to marker
+    text: string;
+}
+
+const HEADER = '# Added by Colorful Carbon VS Code Extension';
+const STAMP_PATTERN = /^# Managed block v(\d+) sha256:([0-9a-f]+)/;
+
+// Helper: Escape a marker for use inside a RegExp
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const BLOCK_PATTERN = `${escapeRegExp(BLOCK_MARKERS.START)}[\\s\\S]*?${escapeRegExp(BLOCK_MARKERS.END)}`;
+
+// Helper: Short content hash of a block body
+function hashBody(body: string): string {
+    return crypto.createHash('sha256').update(body).digest('hex').slice(0, 12);
+}
+
+/**
+ * Render a block for the given body, stamped with its content version and hash
+ */
+export function renderManagedBlock(body: string, version: number): string {
+    return [
+        BLOCK_MARKERS.START,
+        HEADER,
+        `# Managed block v${version} sha256:${hashBody(body)} - edits are detected before upgrades`,
+        body,
+        BLOCK_MARKERS.END
+    ].join('\n');
+}
+
+/**
+ * Check if a file's content contains a managed block
+ */
+export function hasManagedBlock(content: string): boolean {
+    return content.includes(BLOCK_MARKERS.START);
+}
+
+/**
+ * Find the managed block in a file's content
+ * Blocks written before stamping count as pristine version 0 - there is nothing to compare them with
+ */
+export function findManagedBlock(content: string): ManagedBlock | undefined {
+    const match = content.match(new RegExp(BLOCK_PATTERN));
+    if (!match) {
+        return undefined;
+    }
+
+    const lines = match[0].split('\n').slice(1, -1);
+    const inner = lines[0] === HEADER ? lines.slice(1) : lines;
+    const stamp = inner[0]?.match(STAMP_PATTERN);
+
+    if (!stamp) {
+        return { version: 0, pristine: true, text: match[0] };
+    }
+
+    return {
+        version: Number(stamp[1]),
+        pristine: hashBody(inner.slice(1).join('\n')) === stamp[2],
+        text: match[0]
+    };
+}
+
+/**
+ * Compare the block in a file's content against the version this extension ships
+ * A hand-edited block is 'modified' even at the shipped version - regenerating it would lose the edits
+ */
+export function getBlockState(content: string, version: number): BlockState {
+    const block = findManagedBlock(content);
+    if (!block) {
+        return 'missing';
+    }
+    if (!block.pristine) {
+        return 'modified';
+    }
+    return block.version >= version ? 'current' : 'outdated';
+}
+
+/**
+ * Replace the managed block in place, or append it when the file has none
+ */
+export function upsertManagedBlock(content: string, rendered: string): string {
+    const block = findManagedBlock(content);
+    if (block) {
+        return content.replace(block.text, () => rendered);
+    }
+    return content ? `${content}\n\n${rendered}\n` : `${rendered}\n`;
+}
+
+/**
+ * Remove every managed block together with the blank lines written before it
+ * Handles all edge cases: start, middle, end of file
+ */
+export function removeManagedBlocks(content: string): string {
+    return content.replace(new RegExp(`(?:\\n{1,2})?${BLOCK_PATTERN}\\n?`, 'g'), '');
+}
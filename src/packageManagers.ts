@@ -0,0 +1,154 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execSync } from 'child_process';
+
+export type DependencyId = 'starship' | 'fzf' | 'zsh-autosuggestions' | 'zsh-syntax-highlighting';
+
+export type PackageManagerId = 'brew' | 'apt' | 'dnf' | 'pacman' | 'zypper' | 'apk';
+
+export interface PackageManager {
+    id: PackageManagerId;
+    label: string;
+    // Package name per dependency (undefined = not packaged, use fallback installer)
+    packages: Record<DependencyId, string | undefined>;
+    // Shell command that installs the given package names
+    installCommand(packageNames: string[]): string;
+}
+
+// zsh plugins are checked by their entry file, commands by looking them up in PATH
+export const ZSH_PLUGIN_DEPENDENCIES: readonly DependencyId[] = ['zsh-autosuggestions', 'zsh-syntax-highlighting'];
+
+// Share directories where Homebrew and distro packages place zsh plugins
+export const PLUGIN_SHARE_DIRS = [
+    '/opt/homebrew/share',
+    '/usr/local/share',
+    '/home/linuxbrew/.linuxbrew/share',
+    '/usr/share',
+    '/usr/share/zsh/plugins'
+] as const;
+
+// Installers for dependencies a package manager does not carry
+const FALLBACK_INSTALLERS: Partial<Record<DependencyId, string>> = {
+    starship: 'curl -sS https://starship.rs/install.sh | sh -s -- --yes'
+};
+
+// Helper: Prefix with sudo unless already running as root (doas where there is no sudo, as on many Alpine systems)
+function withSudo(command: string): string {
+    if (process.getuid && process.getuid() === 0) {
+        return command;
+    }
+    return !hasCommand('sudo') && hasCommand('doas') ? `doas ${command}` : `sudo ${command}`;
+}
+
+// Helper: Check if a command is available in PATH
+function hasCommand(command: string): boolean {
+    try {
+        execSync(`which ${command}`, { stdio: 'ignore' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const SAME_NAME_PACKAGES: Record<DependencyId, string> = {
+    'starship': 'starship',
+    'fzf': 'fzf',
+    'zsh-autosuggestions': 'zsh-autosuggestions',
+    'zsh-syntax-highlighting': 'zsh-syntax-highlighting'
+};
+
+export const PACKAGE_MANAGERS: Record<PackageManagerId, PackageManager> = {
+    brew: {
+        id: 'brew',
+        label: 'Homebrew',
+        packages: SAME_NAME_PACKAGES,
+        installCommand: packageNames => packageNames
+            .map(pkg => `brew list ${pkg} >/dev/null 2>&1 || brew install ${pkg}`)
+            .join(' && ')
+    },
+    apt: {
+        id: 'apt',
+        label: 'APT',
+        // Debian 12 and Ubuntu 22.04 have no starship package - one missing name fails the whole install
+        packages: { ...SAME_NAME_PACKAGES, starship: undefined },
+        installCommand: packageNames =>
+            `${withSudo('apt-get update')} && ${withSudo(`apt-get install -y ${packageNames.join(' ')}`)}`
+    },
+    dnf: {
+        id: 'dnf',
+        label: 'DNF',
+        packages: { ...SAME_NAME_PACKAGES, starship: undefined },
+        installCommand: packageNames => withSudo(`dnf install -y ${packageNames.join(' ')}`)
+    },
+    pacman: {
+        id: 'pacman',
+        label: 'pacman',
+        packages: SAME_NAME_PACKAGES,
+        installCommand: packageNames => withSudo(`pacman -S --needed --noconfirm ${packageNames.join(' ')}`)
+    },
+    zypper: {
+        id: 'zypper',
+        label: 'zypper',
+        packages: SAME_NAME_PACKAGES,
+        installCommand: packageNames => withSudo(`zypper --non-interactive install ${packageNames.join(' ')}`)
+    },
+    apk: {
+        id: 'apk',
+        label: 'apk',
+        packages: SAME_NAME_PACKAGES,
+        installCommand: packageNames => withSudo(`apk add ${packageNames.join(' ')}`)
+    }
+};
+
+/**
+ * Detect the package manager to install dependencies with
+ * macOS prefers Homebrew; Linux prefers the distro's native manager over Linuxbrew
+ */
+export function detectPackageManager(): PackageManager | undefined {
+    const order: PackageManagerId[] = os.platform() === 'darwin'
+        ? ['brew']
+        : ['apt', 'dnf', 'pacman', 'zypper', 'apk', 'brew'];
+
+    const found = order.find(id => hasCommand(id === 'apt' ? 'apt-get' : id));
+    return found ? PACKAGE_MANAGERS[found] : undefined;
+}
+
+/**
+ * Build a single shell command that installs the given dependencies
+ * Dependencies the manager does not package fall back to their upstream installer
+ */
+export function getInstallCommand(manager: PackageManager, dependencies: DependencyId[]): string {
+    const packageNames: string[] = [];
+    const fallbacks: string[] = [];
+
+    dependencies.forEach(dep => {
+        const packageName = manager.packages[dep];
+        if (packageName) {
+            packageNames.push(packageName);
+        } else if (FALLBACK_INSTALLERS[dep]) {
+            fallbacks.push(`which ${dep} >/dev/null 2>&1 || ${FALLBACK_INSTALLERS[dep]}`);
+        }
+    });
+
+    // Only ';', '&&' and '||' so the command runs in zsh, bash and fish terminals alike
+    const commands = packageNames.length > 0 ? [manager.installCommand(packageNames), ...fallbacks] : fallbacks;
+    return commands.join('; ');
+}
+
+/**
+ * Get candidate entry files for a zsh plugin, in the order they should be sourced
+ */
+export function getPluginFileCandidates(plugin: DependencyId): string[] {
+    return PLUGIN_SHARE_DIRS.map(dir => path.join(dir, plugin, `${plugin}.zsh`));
+}
+
+/**
+ * Check if a dependency is installed, independent of how it was installed
+ */
+export function isDependencyInstalled(dep: DependencyId): boolean {
+    if (ZSH_PLUGIN_DEPENDENCIES.includes(dep)) {
+        return getPluginFileCandidates(dep).some(file => fs.existsSync(file));
+    }
+    return hasCommand(dep);
+}
@@ -0,0 +1,343 @@
+import { alpha, ansiWorkbenchColors } from './helpers';
+import { AnsiColors, VariantPalette } from './types';
+
+// Named colors - workbench, syntax and terminal colors below all reference these
+const c = {
+    background: '#0A0A0A',
+    foreground: '#D9D9D9',
+    accent: '#80CBC4',
+    cursor: '#FFCC00',
+    muted: '#56575D',
+    statusForeground: '#494B50',
+    lineHighlight: '#2F3237',
+    selection: '#474747',
+    surface: '#161718',
+    peekBorder: '#101213',
+    scrollbar: '#EEFFFF',
+    gray: '#808080',
+    white: '#FFFFFF',
+    black: '#000000',
+    terminalBackground: '#0f111a',
+    terminalForeground: '#8f93a2',
+    green: '#a3c679',
+    blue: '#6a90d0',
+    red: '#c85e60',
+    gold: '#d5b05f'
+};
+
+const ansi: AnsiColors = {
+    black: c.black,
+    red: '#ff5370',
+    green: '#c3e88d',
+    yellow: '#ffcb6b',
+    blue: '#82aaff',
+    magenta: '#c792ea',
+    cyan: '#89ddff',
+    white: '#ffffff',
+    brightBlack: '#546e7a',
+    brightRed: '#ff5370',
+    brightGreen: '#c3e88d',
+    brightYellow: '#ffcb6b',
+    brightBlue: '#82aaff',
+    brightMagenta: '#c792ea',
+    brightCyan: '#89ddff',
+    brightWhite: '#ffffff'
+};
+
+export const colorfulCarbonPalette: VariantPalette = {
+    id: 'default',
+    name: 'Colorful Carbon',
+    uiTheme: 'vs-dark',
+    themeFile: 'colorful-carbon.json',
+    accent: c.accent,
+    ansi,
+    syntax: {
+        background: c.background,
+        foreground: c.foreground,
+        string: c.green,
+        boolean: '#d6808f',
+        number: '#cd775c',
+        variable: c.foreground,
+        keyword: '#6ebad7',
+        function: c.blue,
+        storage: '#a178c4',
+        type: c.gold,
+        comment: '#45454A',
+        tag: c.red,
+        cssProperty: '#90a9bc',
+        markupCode: c.green
+    },
+    // Existing users keep exactly the highlighting they had before the palettes
+    classicTokenRules: true,
+    // Named ANSI colors follow the terminal palette above
+    prompt: {
+        themeName: '',
+        username: 'cyan',
+        hostname: 'cyan',
+        separator: 'white',
+        directory: 'blue',
+        gitBranch: 'fg:205',
+        gitUpstream: 'fg:150',
+        gitRemote: 'fg:110',
+        gitConflict: 'red',
+        fetchAge: 'fg:179',
+        fetchFailure: 'fg:203',
+        nodejs: 'green',
+        python: 'yellow',
+        rust: 'fg:208',
+        golang: 'cyan',
+        java: 'red',
+        docker: 'blue',
+        kubernetes: 'fg:69',
+        aws: 'fg:214',
+        terraform: 'purple',
+        characterSuccess: 'green',
+        characterError: 'red',
+        time: 'fg:241'
+    },
+    git: {
+        branch: 'magenta bold',
+        added: 'green',
+        decorateBranch: 'magenta'
+    },
+    highlight: {
+        command: 'fg=green,bold',
+        argument: 'fg=green'
+    },
+    workbench: [
+        {
+            colors: {
+                'focusBorder': alpha(c.gray, '00')
+            }
+        },
+        {
+            title: 'Editor colors',
+            colors: {
+                'editor.background': c.background,
+                'editor.foreground': c.foreground,
+                'editor.selectionBackground': alpha(c.selection, '80'),
+                'editor.lineHighlightBackground': alpha(c.lineHighlight, '00'),
+                'editor.lineHighlightBorder': alpha(c.lineHighlight, '66'),
+                'editorCursor.foreground': c.cursor,
+                'editorCursor.background': c.cursor
+            }
+        },
+        {
+            title: 'Activity Bar',
+            colors: {
+                'activityBar.background': c.background,
+                'activityBar.foreground': c.foreground,
+                'activityBar.border': alpha(c.background, '99'),
+                'activityBar.activeBorder': c.accent,
+                'activityBarBadge.background': c.accent,
+                'activityBarBadge.foreground': c.black
+            }
+        },
+        {
+            title: 'Sidebar',
+            colors: {
+                'sideBar.background': c.background,
+                'sideBar.foreground': c.muted,
+                'sideBar.border': alpha(c.background, '99'),
+                'sideBarTitle.foreground': c.foreground
+            }
+        },
+        {
+            title: 'List/Tree',
+            colors: {
+                'list.activeSelectionBackground': alpha(c.background, 'ff'),
+                'list.activeSelectionForeground': c.accent,
+                'list.inactiveSelectionBackground': alpha(c.lineHighlight, '66'),
+                'list.inactiveSelectionForeground': c.accent,
+                'list.hoverBackground': c.background,
+                'list.hoverForeground': c.white,
+                'list.highlightForeground': c.accent
+            }
+        },
+        {
+            title: 'Tabs',
+            colors: {
+                'tab.activeBackground': c.background,
+                'tab.activeForeground': c.white,
+                'tab.activeBorder': c.accent,
+                'tab.inactiveBackground': c.background,
+                'tab.inactiveForeground': c.muted,
+                'tab.border': c.background
+            }
+        },
+        {
+            title: 'Status Bar',
+            colors: {
+                'statusBar.background': c.background,
+                'statusBar.foreground': c.statusForeground,
+                'statusBar.border': alpha(c.background, '99'),
+                'statusBar.debuggingBackground': alpha(c.accent, '1a'),
+                'statusBar.debuggingForeground': c.accent
+            }
+        },
+        {
+            title: 'Terminal colors (matching our terminal setup)',
+            colors: {
+                'terminal.background': c.terminalBackground,
+                'terminal.foreground': c.terminalForeground,
+                'terminalCursor.background': c.accent,
+                'terminalCursor.foreground': c.accent,
+                ...ansiWorkbenchColors(ansi)
+            }
+        },
+        {
+            title: 'Buttons',
+            colors: {
+                'button.background': c.accent,
+                'button.foreground': c.black,
+                'button.hoverBackground': alpha(c.accent, 'cc')
+            }
+        },
+        {
+            title: 'Input',
+            colors: {
+                'input.background': c.surface,
+                'input.foreground': c.foreground,
+                'input.border': alpha(c.white, '10')
+            }
+        },
+        {
+            title: 'Scrollbar',
+            colors: {
+                'scrollbarSlider.background': alpha(c.scrollbar, '20'),
+                'scrollbarSlider.hoverBackground': alpha(c.scrollbar, '10'),
+                'scrollbarSlider.activeBackground': c.accent
+            }
+        },
+        {
+            title: 'Editor widgets',
+            colors: {
+                'editorWidget.background': c.background,
+                'editorWidget.border': c.accent,
+                'editorWidget.resizeBorder': c.accent
+            }
+        },
+        {
+            title: 'Notifications',
+            colors: {
+                'notifications.background': c.background,
+                'notifications.foreground': c.foreground,
+                'notificationLink.foreground': c.accent
+            }
+        },
+        {
+            title: 'Git decorations',
+            colors: {
+                'gitDecoration.addedResourceForeground': alpha(c.green, 'e6'),
+                'gitDecoration.modifiedResourceForeground': alpha(c.blue, 'e6'),
+                'gitDecoration.deletedResourceForeground': alpha(c.red, 'e6'),
+                'gitDecoration.untrackedResourceForeground': alpha(c.green, 'e6'),
+                'gitDecoration.conflictingResourceForeground': alpha(c.gold, 'e6'),
+                'gitDecoration.ignoredResourceForeground': alpha(c.muted, '80')
+            }
+        },
+        {
+            title: 'Diff editor',
+            colors: {
+                'diffEditor.insertedTextBackground': alpha(c.green, '12'),
+                'diffEditor.removedTextBackground': alpha(c.red, '14')
+            }
+        },
+        {
+            title: 'Editor groups',
+            colors: {
+                'editorGroup.border': alpha(c.foreground, '0f'),
+                'editorGroupHeader.tabsBackground': c.background
+            }
+        },
+        {
+            title: 'Panel',
+            colors: {
+                'panel.background': alpha(c.background, 'ff'),
+                'panel.border': alpha(c.background, '99'),
+                'panelTitle.activeForeground': c.foreground,
+                'panelTitle.activeBorder': c.accent
+            }
+        },
+        {
+            title: 'Breadcrumb',
+            colors: {
+                'breadcrumb.background': c.background,
+                'breadcrumb.foreground': c.muted,
+                'breadcrumb.activeSelectionForeground': c.accent
+            }
+        },
+        {
+            title: 'Title bar',
+            colors: {
+                'titleBar.activeBackground': c.background,
+                'titleBar.activeForeground': c.foreground,
+                'titleBar.inactiveBackground': c.background,
+                'titleBar.inactiveForeground': c.muted
+            }
+        },
+        {
+            title: 'Menu',
+            colors: {
+                'menu.background': c.background,
+                'menu.foreground': c.foreground,
+                'menu.selectionBackground': alpha(c.lineHighlight, '66'),
+                'menu.selectionForeground': c.accent,
+                'menubar.selectionBackground': alpha(c.lineHighlight, '66'),
+                'menubar.selectionForeground': c.accent
+            }
+        },
+        {
+            title: 'Settings',
+            colors: {
+                'settings.modifiedItemIndicator': c.accent
+            }
+        },
+        {
+            title: 'Command center',
+            colors: {
+                'commandCenter.foreground': alpha(c.foreground, '99'),
+                'commandCenter.activeBorder': c.accent
+            }
+        },
+        {
+            title: 'Extension button',
+            colors: {
+                'extensionButton.background': alpha(c.accent, '14'),
+                'extensionButton.foreground': c.accent,
+                'extensionButton.hoverBackground': alpha(c.accent, '33'),
+                'extensionButton.separator': alpha(c.accent, '33')
+            }
+        },
+        {
+            title: 'Text colors',
+            colors: {
+                'textLink.foreground': c.accent,
+                'textLink.activeForeground': c.foreground
+            }
+        },
+        {
+            title: 'Progress bar',
+            colors: {
+                'progressBar.background': c.accent
+            }
+        },
+        {
+            title: 'Editor find',
+            colors: {
+                'editor.findMatchBackground': '#ffffff26',
+                'editor.findMatchHighlightBackground': '#ffffff26',
+                'editor.findMatchBorder': c.accent
+            }
+        },
+        {
+            title: 'Peek view',
+            colors: {
+                'peekView.border': alpha(c.peekBorder, '80'),
+                'peekViewEditor.background': c.surface,
+                'peekViewTitle.background': c.surface,
+                'peekViewResult.background': c.surface
+            }
+        }
+    ]
+};
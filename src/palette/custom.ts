@@ -0,0 +1,86 @@
+import { BuiltInVariantId, VariantId, VariantPalette } from './types';
+
+// Accent roles a custom variant may override (all #RRGGBB)
+export interface CustomAccents {
+    primary?: string;
+    branch?: string;
+    upstream?: string;
+    directory?: string;
+    success?: string;
+    error?: string;
+}
+
+// Shape of one entry in the colorfulCarbon.customVariants setting
+export interface CustomVariantDefinition {
+    name: string;
+    base: BuiltInVariantId;
+    accents?: CustomAccents;
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Helper: Build the variant id for a custom variant name ("Acme Corp" -> "custom-acme-corp")
+// Names with the same slug ("Acme" and "acme", or two non-ASCII names) get -2, -3... so no variant overwrites another's files
+export function getCustomVariantId(name: string, takenIds: ReadonlySet<string> = new Set()): VariantId {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    const baseId: VariantId = `custom-${slug || 'variant'}`;
+    let id = baseId;
+    for (let counter = 2; takenIds.has(id); counter++) {
+        id = `${baseId}-${counter}`;
+    }
+    return id;
+}
+
+/**
+ * Derive a palette for a user-defined variant from its base palette
+ * Invalid colors are ignored so a typo in settings never breaks the terminal config
+ * `takenIds` holds the ids of the variants defined before this one
+ */
+export function createCustomPalette(
+    definition: CustomVariantDefinition,
+    base: VariantPalette,
+    takenIds: ReadonlySet<string> = new Set()
+): VariantPalette {
+    const accents: CustomAccents = {};
+    (Object.keys(definition.accents ?? {}) as (keyof CustomAccents)[]).forEach(role => {
+        const color = definition.accents?.[role];
+        if (color && HEX_COLOR.test(color)) {
+            accents[role] = color;
+        }
+    });
+
+    // Recolor every workbench color built from the base accent, keeping its alpha suffix
+    const primary = accents.primary;
+    const workbench = base.workbench.map(section => ({
+        title: section.title,
+        colors: Object.fromEntries(Object.entries(section.colors).map(([key, value]) => [
+            key,
+            primary && value.slice(0, 7).toLowerCase() === base.accent.toLowerCase()
+                ? `${primary}${value.slice(7)}`
+                : value
+        ]))
+    }));
+
+    return {
+        ...base,
+        id: getCustomVariantId(definition.name, takenIds),
+        name: definition.name,
+        base: base.id as BuiltInVariantId,
+        accent: primary ?? base.accent,
+        prompt: {
+            ...base.prompt,
+            themeName: definition.name,
+            gitBranch: accents.branch ? `fg:${accents.branch}` : base.prompt.gitBranch,
+            gitUpstream: accents.upstream ? `fg:${accents.upstream}` : base.prompt.gitUpstream,
+            directory: accents.directory ? `fg:${accents.directory}` : base.prompt.directory,
+            characterSuccess: accents.success ? `fg:${accents.success}` : base.prompt.characterSuccess,
+            characterError: accents.error ? `fg:${accents.error}` : base.prompt.characterError
+        },
+        git: accents.branch ? {
+            ...base.git,
+            branch: `${accents.branch} bold`,
+            decorateBranch: accents.branch
+        } : base.git,
+        workbench
+    };
+}
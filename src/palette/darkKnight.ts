@@ -0,0 +1,482 @@
+import { alpha, ansiWorkbenchColors } from './helpers';
+import { AnsiColors, VariantPalette } from './types';
+
+// Named colors - workbench, syntax, terminal and prompt colors below all reference these
+const c = {
+    background: '#0A0A0A',
+    foreground: '#E0E0E0',
+    surface: '#12171e',
+    surfaceHighlight: '#28333a',
+    border: '#1e1e1e',
+    muted: '#9CA3AF',
+    gray: '#808080',
+    dim: '#666666',
+    white: '#FFFFFF',
+    black: '#000000',
+    variable: '#f4f5f7',
+    subtleForeground: '#c5c5c5',
+    widgetForeground: '#cfcfc8',
+    chatForeground: '#bdc4c7',
+    buttonHover: '#2b2e33',
+    buttonBorder: '#2a2a2a',
+    lineHighlight: '#1a1a1a',
+    selection: '#474747',
+    scrollbar: '#EEFFFF',
+    extensionAccent: '#526e64',
+    terminalForeground: '#8f93a2',
+    red: '#FF6B6B',
+    green: '#6BCB77',
+    softGreen: '#a3c679',
+    yellow: '#FFD93D',
+    blue: '#4D96FF',
+    cyan: '#4ECDC4',
+    orange: '#FF8B13',
+    coral: '#ee9580',
+    purple: '#B388FF',
+    lavender: '#C792EA'
+};
+
+const ansi: AnsiColors = {
+    black: c.background,
+    red: c.red,
+    green: c.green,
+    yellow: c.yellow,
+    blue: c.blue,
+    magenta: c.orange,
+    cyan: c.cyan,
+    white: c.foreground,
+    brightBlack: c.dim,
+    brightRed: c.red,
+    brightGreen: c.green,
+    brightYellow: c.yellow,
+    brightBlue: c.blue,
+    brightMagenta: c.orange,
+    brightCyan: c.cyan,
+    brightWhite: c.white
+};
+
+export const darkKnightPalette: VariantPalette = {
+    id: 'dark-knight',
+    name: 'Colorful Carbon Dark Knight',
+    uiTheme: 'vs-dark',
+    themeFile: 'colorful-carbon-dark-knight.json',
+    accent: c.yellow,
+    ansi,
+    syntax: {
+        background: c.background,
+        foreground: c.foreground,
+        string: c.softGreen,
+        boolean: c.coral,
+        number: c.orange,
+        variable: c.variable,
+        keyword: c.blue,
+        function: c.cyan,
+        storage: c.purple,
+        type: c.yellow,
+        comment: c.dim,
+        tag: c.coral,
+        cssProperty: c.cyan,
+        markupCode: c.gray
+    },
+    prompt: {
+        themeName: 'Dark Knight',
+        username: `fg:${c.green}`,
+        hostname: `fg:${c.green}`,
+        separator: 'white',
+        directory: `fg:${c.cyan}`,
+        gitBranch: `fg:${c.yellow}`,
+        gitUpstream: `fg:${c.lavender}`,
+        gitRemote: `fg:${c.coral}`,
+        gitConflict: `fg:${c.red}`,
+        fetchAge: `fg:${c.muted}`,
+        fetchFailure: `fg:${c.red}`,
+        nodejs: `fg:${c.green}`,
+        python: `fg:${c.yellow}`,
+        rust: `fg:${c.orange}`,
+        golang: `fg:${c.cyan}`,
+        java: `fg:${c.coral}`,
+        docker: `fg:${c.blue}`,
+        kubernetes: `fg:${c.purple}`,
+        aws: `fg:${c.yellow}`,
+        terraform: `fg:${c.lavender}`,
+        characterSuccess: `fg:${c.blue}`,
+        characterError: `fg:${c.red}`,
+        time: `fg:${c.muted}`
+    },
+    git: {
+        branch: 'yellow bold',
+        added: 'magenta bold',
+        decorateBranch: 'yellow'
+    },
+    highlight: {
+        command: 'fg=green,bold',
+        argument: 'fg=green'
+    },
+    workbench: [
+        {
+            colors: {
+                'focusBorder': alpha(c.gray, '00')
+            }
+        },
+        {
+            title: 'Editor',
+            colors: {
+                'editor.background': c.background,
+                'editor.foreground': c.foreground,
+                'editor.selectionBackground': alpha(c.selection, '80'),
+                'editor.lineHighlightBackground': alpha(c.lineHighlight, '00'),
+                'editor.lineHighlightBorder': alpha(c.lineHighlight, '66'),
+                'editorCursor.foreground': c.gray,
+                'editorCursor.background': c.gray
+            }
+        },
+        {
+            title: 'Activity Bar',
+            colors: {
+                'activityBar.background': c.background,
+                'activityBar.foreground': c.foreground,
+                'activityBar.border': c.surface,
+                'activityBar.activeBorder': c.surface,
+                'activityBarBadge.background': c.surface,
+                'activityBarBadge.foreground': c.foreground
+            }
+        },
+        {
+            title: 'Sidebar',
+            colors: {
+                'sideBar.background': c.background,
+                'sideBar.foreground': c.muted,
+                'sideBar.border': c.surface,
+                'sideBarTitle.foreground': c.foreground,
+                'sideBarSectionHeader.background': c.surface,
+                'sideBarSectionHeader.foreground': c.foreground,
+                'sideBarSectionHeader.border': c.surface
+            }
+        },
+        {
+            title: 'Lists & Trees',
+            colors: {
+                'list.activeSelectionBackground': c.surfaceHighlight,
+                'list.activeSelectionForeground': c.softGreen,
+                'list.inactiveSelectionBackground': c.surface,
+                'list.inactiveSelectionForeground': c.subtleForeground,
+                'list.hoverBackground': c.surfaceHighlight,
+                'list.hoverForeground': c.white,
+                'list.highlightForeground': c.yellow,
+                'list.focusBackground': c.surface,
+                'list.focusForeground': c.white,
+                'list.focusAndSelectionBackground': alpha(c.selection, '80'),
+                'list.focusAndSelectionForeground': c.white,
+                'list.inactiveFocusBackground': c.surface,
+                'list.inactiveFocusOutline': c.surface,
+                'list.focusOutline': alpha(c.gray, '00'),
+                'list.filterMatchBackground': alpha(c.yellow, '40'),
+                'list.filterMatchBorder': c.yellow
+            }
+        },
+        {
+            title: 'Tabs',
+            colors: {
+                'tab.activeBackground': c.background,
+                'tab.activeForeground': c.white,
+                'tab.activeBorder': c.softGreen,
+                'tab.inactiveBackground': c.background,
+                'tab.inactiveForeground': c.muted,
+                'tab.border': c.background
+            }
+        },
+        {
+            title: 'Status Bar',
+            colors: {
+                'statusBar.background': c.background,
+                'statusBar.foreground': c.muted,
+                'statusBar.border': c.surface,
+                'statusBar.debuggingBackground': c.surface,
+                'statusBar.debuggingForeground': c.foreground,
+                'statusBar.noFolderBackground': c.background,
+                'statusBar.noFolderForeground': c.muted
+            }
+        },
+        {
+            title: 'Terminal',
+            colors: {
+                'terminal.background': c.background,
+                'terminal.foreground': c.terminalForeground,
+                'terminalCursor.background': c.yellow,
+                'terminalCursor.foreground': c.yellow,
+                ...ansiWorkbenchColors(ansi)
+            }
+        },
+        {
+            title: 'Buttons',
+            colors: {
+                'button.background': c.surfaceHighlight,
+                'button.foreground': c.foreground,
+                'button.hoverBackground': c.buttonHover,
+                'button.secondaryBackground': c.surface,
+                'button.secondaryForeground': c.foreground,
+                'button.secondaryHoverBackground': c.buttonHover,
+                'button.border': c.buttonBorder
+            }
+        },
+        {
+            title: 'Input Fields',
+            colors: {
+                'input.background': c.surface,
+                'input.foreground': c.subtleForeground,
+                'input.border': c.surfaceHighlight
+            }
+        },
+        {
+            title: 'Scrollbar',
+            colors: {
+                'scrollbarSlider.background': alpha(c.scrollbar, '20'),
+                'scrollbarSlider.hoverBackground': alpha(c.scrollbar, '10'),
+                'scrollbarSlider.activeBackground': c.gray
+            }
+        },
+        {
+            title: 'Editor Widgets',
+            colors: {
+                'editorWidget.background': c.surface,
+                'editorWidget.foreground': c.widgetForeground,
+                'editorWidget.border': c.surfaceHighlight,
+                'editorWidget.resizeBorder': c.surfaceHighlight
+            }
+        },
+        {
+            title: 'Notifications',
+            colors: {
+                'notifications.background': c.background,
+                'notifications.foreground': c.foreground,
+                'notificationLink.foreground': c.gray
+            }
+        },
+        {
+            title: 'Git Decorations',
+            colors: {
+                'gitDecoration.addedResourceForeground': alpha(c.gray, 'e6'),
+                'gitDecoration.modifiedResourceForeground': alpha(c.blue, 'e6'),
+                'gitDecoration.deletedResourceForeground': alpha(c.red, 'e6'),
+                'gitDecoration.untrackedResourceForeground': alpha(c.gray, 'e6'),
+                'gitDecoration.conflictingResourceForeground': alpha(c.yellow, 'e6'),
+                'gitDecoration.ignoredResourceForeground': alpha(c.muted, '80')
+            }
+        },
+        {
+            title: 'Diff Editor',
+            colors: {
+                'diffEditor.insertedTextBackground': c.surfaceHighlight,
+                'diffEditor.removedTextBackground': alpha(c.red, '14')
+            }
+        },
+        {
+            title: 'Editor Groups',
+            colors: {
+                'editorGroup.border': c.surface,
+                'editorGroupHeader.tabsBackground': c.background
+            }
+        },
+        {
+            title: 'Panel',
+            colors: {
+                'panel.background': c.background,
+                'panel.border': c.surface,
+                'panelTitle.activeForeground': c.foreground,
+                'panelTitle.inactiveForeground': c.gray,
+                'panelTitle.activeBorder': c.surfaceHighlight,
+                'panelTitle.inactiveBackground': c.background
+            }
+        },
+        {
+            title: 'Breadcrumb',
+            colors: {
+                'breadcrumb.background': c.background,
+                'breadcrumb.foreground': c.muted,
+                'breadcrumb.activeSelectionForeground': c.foreground
+            }
+        },
+        {
+            title: 'Title Bar',
+            colors: {
+                'titleBar.activeBackground': c.background,
+                'titleBar.activeForeground': c.foreground,
+                'titleBar.inactiveBackground': c.surface,
+                'titleBar.inactiveForeground': c.foreground
+            }
+        },
+        {
+            title: 'Menu',
+            colors: {
+                'menu.background': c.background,
+                'menu.foreground': c.foreground,
+                'menu.selectionBackground': c.surface,
+                'menu.selectionForeground': c.foreground,
+                'menubar.selectionBackground': c.surface,
+                'menubar.selectionForeground': c.foreground
+            }
+        },
+        {
+            title: 'Settings',
+            colors: {
+                'settings.modifiedItemIndicator': c.border
+            }
+        },
+        {
+            title: 'Command Center',
+            colors: {
+                'commandCenter.foreground': alpha(c.foreground, '99'),
+                'commandCenter.activeBorder': c.border
+            }
+        },
+        {
+            title: 'Extension Buttons',
+            colors: {
+                'extensionButton.background': alpha(c.extensionAccent, '14'),
+                'extensionButton.foreground': c.extensionAccent,
+                'extensionButton.hoverBackground': alpha(c.extensionAccent, '33'),
+                'extensionButton.separator': alpha(c.extensionAccent, '33')
+            }
+        },
+        {
+            title: 'Text Links',
+            colors: {
+                'textLink.foreground': c.foreground,
+                'textLink.activeForeground': c.white
+            }
+        },
+        {
+            title: 'Progress Bar',
+            colors: {
+                'progressBar.background': c.surface
+            }
+        },
+        {
+            title: 'Editor Find',
+            colors: {
+                'editor.findMatchBackground': '#ffffff26',
+                'editor.findMatchHighlightBackground': '#ffffff26',
+                'editor.findMatchBorder': c.border
+            }
+        },
+        {
+            title: 'Peek View',
+            colors: {
+                'peekView.border': c.surface,
+                'peekViewEditor.background': c.surface,
+                'peekViewTitle.background': c.surface,
+                'peekViewResult.background': c.surface
+            }
+        },
+        {
+            title: 'Claude Chat Integration',
+            colors: {
+                'chat.requestBackground': c.surface,
+                'chat.requestBorder': c.surface,
+                'chat.requestForeground': c.chatForeground,
+                'interactive.responseBackground': c.surface,
+                'interactive.responseBorder': c.border,
+                'interactive.responseForeground': c.widgetForeground,
+                'editorSuggestWidget.background': c.surface,
+                'editorSuggestWidget.foreground': c.widgetForeground,
+                'editorSuggestWidget.border': c.border,
+                'editorHoverWidget.background': c.surface,
+                'editorHoverWidget.foreground': c.widgetForeground,
+                'editorHoverWidget.border': c.border
+            }
+        },
+        {
+            title: 'Quick Input',
+            colors: {
+                'quickInput.background': c.background,
+                'quickInput.foreground': c.foreground,
+                'quickInputTitle.background': c.background,
+                'quickInputList.focusBackground': c.surfaceHighlight,
+                'quickInputList.focusForeground': c.white,
+                'quickInputList.focusIconForeground': c.white
+            }
+        },
+        {
+            title: 'Picker Group',
+            colors: {
+                'pickerGroup.border': c.border,
+                'pickerGroup.foreground': c.muted
+            }
+        },
+        {
+            title: 'Dropdown',
+            colors: {
+                'dropdown.background': c.surface,
+                'dropdown.border': c.border,
+                'dropdown.foreground': c.foreground
+            }
+        },
+        {
+            title: 'Editor Indent Guides',
+            colors: {
+                'editorIndentGuide.background': alpha(c.border, '40'),
+                'editorIndentGuide.activeBackground': c.border
+            }
+        },
+        {
+            title: 'Editor Ruler',
+            colors: {
+                'editorRuler.foreground': c.border
+            }
+        },
+        {
+            title: 'Selection',
+            colors: {
+                'selection.background': alpha(c.selection, '80')
+            }
+        },
+        {
+            title: 'Widget Shadow',
+            colors: {
+                'widget.shadow': alpha(c.black, '50')
+            }
+        },
+        {
+            title: 'Toolbar',
+            colors: {
+                'toolbar.hoverBackground': c.surface,
+                'toolbar.activeBackground': c.surface
+            }
+        },
+        {
+            title: 'Notification Center',
+            colors: {
+                'notificationCenterHeader.background': c.surface,
+                'notificationCenterHeader.foreground': c.foreground,
+                'notificationToast.border': c.border,
+                'notifications.border': c.border
+            }
+        },
+        {
+            title: 'Badge',
+            colors: {
+                'badge.background': c.surface,
+                'badge.foreground': c.foreground
+            }
+        },
+        {
+            title: 'Editor Gutter',
+            colors: {
+                'editorGutter.background': c.background,
+                'editorGutter.modifiedBackground': alpha(c.blue, '80'),
+                'editorGutter.addedBackground': alpha(c.gray, '80'),
+                'editorGutter.deletedBackground': alpha(c.red, '80')
+            }
+        },
+        {
+            title: 'Minimap',
+            colors: {
+                'minimap.background': c.background,
+                'minimap.selectionHighlight': c.surface,
+                'minimapSlider.background': alpha(c.border, '40'),
+                'minimapSlider.hoverBackground': c.surface,
+                'minimapSlider.activeBackground': c.surface
+            }
+        }
+    ]
+};
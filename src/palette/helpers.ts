@@ -0,0 +1,15 @@
+import { AnsiColors } from './types';
+
+// Helper: Append a hex alpha channel to a #RRGGBB color
+export function alpha(color: string, alphaHex: string): string {
+    return `${color}${alphaHex}`;
+}
+
+// Helper: Map the ANSI palette onto VS Code's integrated terminal color keys
+export function ansiWorkbenchColors(ansi: AnsiColors): Record<string, string> {
+    const colors: Record<string, string> = {};
+    (Object.keys(ansi) as (keyof AnsiColors)[]).forEach(name => {
+        colors[`terminal.ansi${name.charAt(0).toUpperCase()}${name.slice(1)}`] = ansi[name];
+    });
+    return colors;
+}
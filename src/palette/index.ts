@@ -0,0 +1,21 @@
+import { colorfulCarbonPalette } from './colorfulCarbon';
+import { darkKnightPalette } from './darkKnight';
+import { lightPalette } from './light';
+import { VariantId, VariantPalette } from './types';
+
+export * from './types';
+export * from './custom';
+export { buildWorkbenchColors, renderThemeFile } from './theme';
+
+// Every built-in variant; the first one is the fallback
+export const PALETTES: readonly VariantPalette[] = [colorfulCarbonPalette, darkKnightPalette, lightPalette];
+
+// Helper: Get palette for a variant, custom ones included (falls back to the default variant)
+export function getPalette(variant: VariantId, customPalettes: readonly VariantPalette[] = []): VariantPalette {
+    return [...PALETTES, ...customPalettes].find(palette => palette.id === variant) ?? PALETTES[0];
+}
+
+// Helper: Find the palette whose theme label matches a VS Code theme name
+export function findPaletteByThemeName(themeName: string | undefined): VariantPalette | undefined {
+    return PALETTES.find(palette => palette.name === themeName);
+}
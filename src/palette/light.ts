@@ -0,0 +1,343 @@
+import { alpha, ansiWorkbenchColors } from './helpers';
+import { AnsiColors, VariantPalette } from './types';
+
+// Named colors - tuned for contrast on near-white backgrounds
+const c = {
+    background: '#FAFAFA',
+    foreground: '#2B2B2B',
+    accent: '#00897B',
+    cursor: '#E65100',
+    muted: '#6B6F76',
+    statusForeground: '#5C5F66',
+    lineHighlight: '#E4E6EA',
+    selection: '#B4D7F5',
+    surface: '#F0F1F3',
+    peekBorder: '#D5D7DB',
+    scrollbar: '#1F2328',
+    white: '#FFFFFF',
+    black: '#000000',
+    terminalBackground: '#F7F7F8',
+    terminalForeground: '#3B3F46',
+    green: '#3F7D20',
+    blue: '#2F5FB3',
+    red: '#B3261E',
+    gold: '#8A6100',
+    pink: '#B0247E',
+    purple: '#7A3EB1'
+};
+
+// Darker ANSI colors so named starship, git and zsh colors stay readable on light terminals
+const ansi: AnsiColors = {
+    black: '#1F2328',
+    red: c.red,
+    green: c.green,
+    yellow: c.gold,
+    blue: c.blue,
+    magenta: c.pink,
+    cyan: '#00737A',
+    white: '#8C9096',
+    brightBlack: '#5C6066',
+    brightRed: '#D1342B',
+    brightGreen: '#4E9A2A',
+    brightYellow: '#A87700',
+    brightBlue: '#3B73D1',
+    brightMagenta: '#C73C96',
+    brightCyan: '#008F96',
+    brightWhite: '#B0B4BA'
+};
+
+export const lightPalette: VariantPalette = {
+    id: 'light',
+    name: 'Colorful Carbon Light',
+    uiTheme: 'vs',
+    themeFile: 'colorful-carbon-light.json',
+    accent: c.accent,
+    ansi,
+    syntax: {
+        background: c.background,
+        foreground: c.foreground,
+        string: c.green,
+        boolean: '#B4365A',
+        number: '#B5521F',
+        variable: c.foreground,
+        keyword: '#1F7A99',
+        function: c.blue,
+        storage: c.purple,
+        type: c.gold,
+        comment: '#8C9096',
+        tag: c.red,
+        cssProperty: '#3E6A85',
+        markupCode: c.green
+    },
+    // Hex colors so the prompt stays readable in light terminals outside VS Code too
+    prompt: {
+        themeName: 'Light',
+        username: `fg:${ansi.cyan}`,
+        hostname: `fg:${ansi.cyan}`,
+        separator: `fg:${c.muted}`,
+        directory: `fg:${c.blue}`,
+        gitBranch: `fg:${c.pink}`,
+        gitUpstream: `fg:${c.green}`,
+        gitRemote: `fg:${c.pink}`,
+        gitConflict: `fg:${c.red}`,
+        fetchAge: `fg:${c.gold}`,
+        fetchFailure: `fg:${c.red}`,
+        nodejs: `fg:${c.green}`,
+        python: `fg:${c.gold}`,
+        rust: `fg:${c.cursor}`,
+        golang: `fg:${ansi.cyan}`,
+        java: `fg:${c.red}`,
+        docker: `fg:${c.blue}`,
+        kubernetes: `fg:${c.purple}`,
+        aws: `fg:${c.gold}`,
+        terraform: `fg:${c.purple}`,
+        characterSuccess: `fg:${c.green}`,
+        characterError: `fg:${c.red}`,
+        time: `fg:${c.muted}`
+    },
+    git: {
+        branch: `${c.pink} bold`,
+        added: c.green,
+        decorateBranch: c.pink
+    },
+    highlight: {
+        command: `fg=${c.green},bold`,
+        argument: `fg=${c.green}`
+    },
+    workbench: [
+        {
+            colors: {
+                'focusBorder': alpha(c.accent, '66')
+            }
+        },
+        {
+            title: 'Editor colors',
+            colors: {
+                'editor.background': c.background,
+                'editor.foreground': c.foreground,
+                'editor.selectionBackground': alpha(c.selection, '99'),
+                'editor.lineHighlightBackground': alpha(c.lineHighlight, '00'),
+                'editor.lineHighlightBorder': c.lineHighlight,
+                'editorCursor.foreground': c.cursor,
+                'editorCursor.background': c.background
+            }
+        },
+        {
+            title: 'Activity Bar',
+            colors: {
+                'activityBar.background': c.surface,
+                'activityBar.foreground': c.foreground,
+                'activityBar.border': c.lineHighlight,
+                'activityBar.activeBorder': c.accent,
+                'activityBarBadge.background': c.accent,
+                'activityBarBadge.foreground': c.white
+            }
+        },
+        {
+            title: 'Sidebar',
+            colors: {
+                'sideBar.background': c.surface,
+                'sideBar.foreground': c.muted,
+                'sideBar.border': c.lineHighlight,
+                'sideBarTitle.foreground': c.foreground
+            }
+        },
+        {
+            title: 'List/Tree',
+            colors: {
+                'list.activeSelectionBackground': c.lineHighlight,
+                'list.activeSelectionForeground': c.accent,
+                'list.inactiveSelectionBackground': alpha(c.lineHighlight, '99'),
+                'list.inactiveSelectionForeground': c.accent,
+                'list.hoverBackground': alpha(c.lineHighlight, '66'),
+                'list.hoverForeground': c.black,
+                'list.highlightForeground': c.accent
+            }
+        },
+        {
+            title: 'Tabs',
+            colors: {
+                'tab.activeBackground': c.background,
+                'tab.activeForeground': c.black,
+                'tab.activeBorder': c.accent,
+                'tab.inactiveBackground': c.surface,
+                'tab.inactiveForeground': c.muted,
+                'tab.border': c.surface
+            }
+        },
+        {
+            title: 'Status Bar',
+            colors: {
+                'statusBar.background': c.surface,
+                'statusBar.foreground': c.statusForeground,
+                'statusBar.border': c.lineHighlight,
+                'statusBar.debuggingBackground': alpha(c.accent, '1a'),
+                'statusBar.debuggingForeground': c.accent
+            }
+        },
+        {
+            title: 'Terminal colors (matching our terminal setup)',
+            colors: {
+                'terminal.background': c.terminalBackground,
+                'terminal.foreground': c.terminalForeground,
+                'terminalCursor.background': c.accent,
+                'terminalCursor.foreground': c.accent,
+                ...ansiWorkbenchColors(ansi)
+            }
+        },
+        {
+            title: 'Buttons',
+            colors: {
+                'button.background': c.accent,
+                'button.foreground': c.white,
+                'button.hoverBackground': alpha(c.accent, 'cc')
+            }
+        },
+        {
+            title: 'Input',
+            colors: {
+                'input.background': c.white,
+                'input.foreground': c.foreground,
+                'input.border': alpha(c.black, '1f')
+            }
+        },
+        {
+            title: 'Scrollbar',
+            colors: {
+                'scrollbarSlider.background': alpha(c.scrollbar, '20'),
+                'scrollbarSlider.hoverBackground': alpha(c.scrollbar, '30'),
+                'scrollbarSlider.activeBackground': c.accent
+            }
+        },
+        {
+            title: 'Editor widgets',
+            colors: {
+                'editorWidget.background': c.surface,
+                'editorWidget.border': c.accent,
+                'editorWidget.resizeBorder': c.accent
+            }
+        },
+        {
+            title: 'Notifications',
+            colors: {
+                'notifications.background': c.surface,
+                'notifications.foreground': c.foreground,
+                'notificationLink.foreground': c.accent
+            }
+        },
+        {
+            title: 'Git decorations',
+            colors: {
+                'gitDecoration.addedResourceForeground': c.green,
+                'gitDecoration.modifiedResourceForeground': c.blue,
+                'gitDecoration.deletedResourceForeground': c.red,
+                'gitDecoration.untrackedResourceForeground': c.green,
+                'gitDecoration.conflictingResourceForeground': c.gold,
+                'gitDecoration.ignoredResourceForeground': alpha(c.muted, 'a6')
+            }
+        },
+        {
+            title: 'Diff editor',
+            colors: {
+                'diffEditor.insertedTextBackground': alpha(c.green, '1f'),
+                'diffEditor.removedTextBackground': alpha(c.red, '1f')
+            }
+        },
+        {
+            title: 'Editor groups',
+            colors: {
+                'editorGroup.border': c.lineHighlight,
+                'editorGroupHeader.tabsBackground': c.surface
+            }
+        },
+        {
+            title: 'Panel',
+            colors: {
+                'panel.background': c.background,
+                'panel.border': c.lineHighlight,
+                'panelTitle.activeForeground': c.foreground,
+                'panelTitle.activeBorder': c.accent
+            }
+        },
+        {
+            title: 'Breadcrumb',
+            colors: {
+                'breadcrumb.background': c.background,
+                'breadcrumb.foreground': c.muted,
+                'breadcrumb.activeSelectionForeground': c.accent
+            }
+        },
+        {
+            title: 'Title bar',
+            colors: {
+                'titleBar.activeBackground': c.surface,
+                'titleBar.activeForeground': c.foreground,
+                'titleBar.inactiveBackground': c.surface,
+                'titleBar.inactiveForeground': c.muted
+            }
+        },
+        {
+            title: 'Menu',
+            colors: {
+                'menu.background': c.white,
+                'menu.foreground': c.foreground,
+                'menu.selectionBackground': c.lineHighlight,
+                'menu.selectionForeground': c.accent,
+                'menubar.selectionBackground': c.lineHighlight,
+                'menubar.selectionForeground': c.accent
+            }
+        },
+        {
+            title: 'Settings',
+            colors: {
+                'settings.modifiedItemIndicator': c.accent
+            }
+        },
+        {
+            title: 'Command center',
+            colors: {
+                'commandCenter.foreground': alpha(c.foreground, 'b3'),
+                'commandCenter.activeBorder': c.accent
+            }
+        },
+        {
+            title: 'Extension button',
+            colors: {
+                'extensionButton.background': alpha(c.accent, '14'),
+                'extensionButton.foreground': c.accent,
+                'extensionButton.hoverBackground': alpha(c.accent, '33'),
+                'extensionButton.separator': alpha(c.accent, '33')
+            }
+        },
+        {
+            title: 'Text colors',
+            colors: {
+                'textLink.foreground': c.accent,
+                'textLink.activeForeground': c.foreground
+            }
+        },
+        {
+            title: 'Progress bar',
+            colors: {
+                'progressBar.background': c.accent
+            }
+        },
+        {
+            title: 'Editor find',
+            colors: {
+                'editor.findMatchBackground': alpha(c.gold, '40'),
+                'editor.findMatchHighlightBackground': alpha(c.gold, '26'),
+                'editor.findMatchBorder': c.accent
+            }
+        },
+        {
+            title: 'Peek view',
+            colors: {
+                'peekView.border': c.peekBorder,
+                'peekViewEditor.background': c.surface,
+                'peekViewTitle.background': c.surface,
+                'peekViewResult.background': c.surface
+            }
+        }
+    ]
+};
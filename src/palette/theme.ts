@@ -0,0 +1,91 @@
+import { SyntaxColors, VariantPalette } from './types';
+
+interface TokenColorRule {
+    name: string;
+    scope?: string;
+    settings: {
+        background?: string;
+        foreground?: string;
+        fontStyle?: string;
+    };
+}
+
+/**
+ * Build TextMate token rules from the syntax roles of a palette
+ */
+function buildTokenColors(syntax: SyntaxColors, classic = false): TokenColorRule[] {
+    const rule = (name: string, scope: string, foreground: string, fontStyle?: string): TokenColorRule => ({
+        name,
+        scope,
+        settings: fontStyle ? { foreground, fontStyle } : { foreground }
+    });
+
+    const functionScopes = classic
+        ? 'entity.name.function, support.function'
+        : 'entity.name.function, support.function, meta.function-call.generic';
+    const consoleMethods = rule('Console methods', 'support.type.object.console, entity.name.function.console', syntax.function);
+
+    return [
+        { name: 'Global settings', settings: { background: syntax.background, foreground: syntax.foreground } },
+        rule('String', 'string', syntax.string),
+        rule('Boolean', 'constant.language.boolean', syntax.boolean),
+        rule('Number', 'constant.numeric', syntax.number),
+        rule('Variable', 'variable, variable.parameter, support.variable, variable.language', syntax.variable),
+        rule('Keyword', 'keyword, modifier, variable.language.this, support.type.object, constant.language', syntax.keyword),
+        rule('Function call', functionScopes, syntax.function),
+        ...(classic ? [] : [consoleMethods]),
+        rule('Storage', 'storage.type, storage.modifier, storage.control', syntax.storage),
+        rule('Type', 'support.type, constant.other.key, entity.name.type', syntax.type),
+        rule('Comment', 'comment, comment punctuation.definition.comment', syntax.comment, 'italic'),
+        rule('Punctuation', 'punctuation, constant.other.symbol', syntax.keyword),
+        rule('Class', 'entity.name, entity.name.type.class, support.type, support.class', syntax.type),
+        rule('HTML tag', 'entity.name.tag', syntax.tag),
+        rule('HTML tag attribute', 'entity.other.attribute-name', syntax.storage),
+        rule('CSS properties', 'support.type.property-name.css', syntax.cssProperty),
+        rule('CSS class', 'entity.other.attribute-name.class', syntax.type),
+        rule('CSS ID', 'entity.other.attribute-name.id', syntax.number),
+        rule('JSON key', 'meta.object-literal.key, support.type.property-name.json', syntax.tag),
+        rule('Markdown heading', 'markup.heading', syntax.keyword),
+        rule('Markdown link', 'text.html.markdown meta.link.inline, meta.link.reference', syntax.tag),
+        rule('Markdown bold', 'markup.bold', syntax.tag, 'bold'),
+        rule('Markdown italic', 'markup.italic', syntax.tag, 'italic'),
+        rule('Markdown code', 'markup.inline.raw.string.markdown, markup.fenced_code.block.markdown', syntax.markupCode),
+        rule('JSX Components', 'support.class.component', syntax.type),
+        rule('Template expression', 'template.expression.begin, template.expression.end', syntax.keyword),
+        rule('YAML key', 'entity.name.tag.yaml', syntax.tag),
+        ...(classic ? [consoleMethods] : [])
+    ];
+}
+
+/**
+ * Build the flat workbench color map of a palette
+ */
+export function buildWorkbenchColors(palette: VariantPalette): Record<string, string> {
+    return Object.assign({}, ...palette.workbench.map(section => section.colors));
+}
+
+/**
+ * Render the VS Code color theme file (JSONC, sections kept as comments)
+ */
+export function renderThemeFile(palette: VariantPalette): string {
+    const indent = (text: string, spaces: number) =>
+        text.split('\n').map(line => ' '.repeat(spaces) + line).join('\n');
+
+    const sections = palette.workbench.map(section => {
+        const entries = Object.entries(section.colors).map(([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+        return `${section.title ? `    // ${section.title}\n` : ''}${entries.join(',\n')}`;
+    });
+
+    const tokenColors = JSON.stringify(buildTokenColors(palette.syntax, palette.classicTokenRules), null, 2);
+
+    return `{
+  "name": ${JSON.stringify(palette.name)},
+  "type": "${palette.uiTheme === 'vs' ? 'light' : 'dark'}",
+  "semanticHighlighting": true,
+  "colors": {
+${sections.join(',\n\n')}
+  },
+  "tokenColors": ${indent(tokenColors, 2).trimStart()}
+}
+`;
+}
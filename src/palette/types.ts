@@ -0,0 +1,112 @@
+export type BuiltInVariantId = 'default' | 'dark-knight' | 'light';
+
+// Built-in ids plus generated ids of user-defined variants ("custom-<slug>")
+export type VariantId = BuiltInVariantId | `custom-${string}`;
+
+export interface AnsiColors {
+    black: string;
+    red: string;
+    green: string;
+    yellow: string;
+    blue: string;
+    magenta: string;
+    cyan: string;
+    white: string;
+    brightBlack: string;
+    brightRed: string;
+    brightGreen: string;
+    brightYellow: string;
+    brightBlue: string;
+    brightMagenta: string;
+    brightCyan: string;
+    brightWhite: string;
+}
+
+// Syntax roles - each maps to one or more TextMate scopes in the generated theme
+export interface SyntaxColors {
+    background: string;
+    foreground: string;
+    string: string;
+    boolean: string;
+    number: string;
+    variable: string;
+    keyword: string;
+    function: string;
+    storage: string;
+    type: string;
+    comment: string;
+    tag: string;
+    cssProperty: string;
+    markupCode: string;
+}
+
+// Starship styles (named ANSI colors or fg:#hex)
+export interface PromptColors {
+    themeName: string;
+    username: string;
+    hostname: string;
+    // The @ between user and host
+    separator: string;
+    directory: string;
+    gitBranch: string;
+    gitUpstream: string;
+    // Secondary remotes, e.g. upstream/main ⬆ 1⬇ 4
+    gitRemote: string;
+    gitConflict: string;
+    // ⟳ age of fetched data and ✗ fetch failure markers
+    fetchAge: string;
+    fetchFailure: string;
+    nodejs: string;
+    python: string;
+    // Language and tool modules (only styled once added to colorfulCarbon.prompt.modules)
+    rust: string;
+    golang: string;
+    java: string;
+    docker: string;
+    kubernetes: string;
+    aws: string;
+    terraform: string;
+    characterSuccess: string;
+    characterError: string;
+    time: string;
+}
+
+// git config color values (the git() wrapper reads the branch color back from git)
+export interface GitColors {
+    branch: string;
+    added: string;
+    decorateBranch: string;
+}
+
+// zsh-syntax-highlighting styles
+export interface HighlightStyles {
+    command: string;
+    argument: string;
+}
+
+export interface WorkbenchSection {
+    // Comment written above the section in the theme file (none when undefined)
+    title?: string;
+    colors: Record<string, string>;
+}
+
+export interface VariantPalette {
+    id: VariantId;
+    // Theme label as contributed in package.json (custom variants: the user's name)
+    name: string;
+    // Built-in variant a custom variant is derived from
+    base?: BuiltInVariantId;
+    uiTheme: 'vs-dark' | 'vs';
+    // File name under themes/ that VS Code renders this variant with
+    themeFile: string;
+    // Primary workbench accent - custom variants recolor every use of it
+    accent: string;
+    ansi: AnsiColors;
+    syntax: SyntaxColors;
+    // The original Colorful Carbon token rules: no meta.function-call.generic scope, console methods last
+    classicTokenRules?: boolean;
+    prompt: PromptColors;
+    git: GitColors;
+    highlight: HighlightStyles;
+    workbench: WorkbenchSection[];
+}
@@ -0,0 +1,205 @@
+import { execFile, spawn } from 'child_process';
+import { StarshipCustomModule } from './starshipConfig';
+
+/*
+ * Prompt doctor - where the time of a prompt goes
+ *
+ * Runs `starship timings` and `starship explain` against the generated config, times
+ * every custom module on its own (a first and a repeat run, so caches show up) and the
+ * Smart Fetch hook, and renders it all as one Markdown report.
+ */
+
+// Modules at or above this are marked slow (starship's command_timeout is 500ms)
+export const SLOW_MODULE_MS = 50;
+
+// Nothing the doctor runs may take longer than this
+const RUN_TIMEOUT_MS = 10 * 1000;
+
+export interface ModuleTiming {
+    name: string;
+    durationMs: number;
+    output: string;
+}
+
+export interface CustomModuleTiming {
+    name: string;
+    firstRunMs?: number;
+    repeatRunMs?: number;
+    error?: string;
+}
+
+// Everything measured in one workspace folder (errors instead of results when a step failed)
+export interface FolderDiagnosis {
+    folder: string;
+    promptMs?: number;
+    timings: ModuleTiming[];
+    timingsError?: string;
+    explain: string;
+    customModules: CustomModuleTiming[];
+    fetchHookMs?: number;
+    fetchHookError?: string;
+}
+
+export interface PromptReportContext {
+    // Config starship was pointed at, for display
+    configPath: string;
+    // Where a module is set up, e.g. "theme [git_branch]" (undefined: starship's defaults)
+    describeModule(name: string): string | undefined;
+}
+
+// Helper: Strip terminal colors and the prompt escapes starship wraps them in
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;]*m/g, '').replace(/%\{|%\}|\\\[|\\\]/g, '');
+}
+
+/**
+ * Parse `starship timings` lines: " git_status  -  12ms  -  "…""
+ */
+export function parseStarshipTimings(output: string): ModuleTiming[] {
+    return stripAnsi(output).split('\n').flatMap(line => {
+        const match = line.match(/^\s*(\S+)\s+-\s+(<)?(\d+(?:\.\d+)?)(µs|ms|s)\s+-\s+"(.*)"\s*$/);
+        if (!match) {
+            return [];
+        }
+        const [, name, under, amount, unit, value] = match;
+        const durationMs = under ? 0 : Number(amount) * (unit === 's' ? 1000 : unit === 'µs' ? 0.001 : 1);
+        return [{ name, durationMs, output: value }];
+    });
+}
+
+/**
+ * Run starship with a config in a folder, resolving with stdout and the wall time it took
+ */
+export function runStarship(args: string[], cwd: string, configPath: string): Promise<{ output: string; durationMs: number }> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+        execFile('starship', args, {
+            cwd,
+            timeout: RUN_TIMEOUT_MS,
+            env: { ...process.env, STARSHIP_CONFIG: configPath, STARSHIP_LOG: 'error' }
+        }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || error.message));
+            } else {
+                resolve({ output: stdout, durationMs: Date.now() - started });
+            }
+        });
+    });
+}
+
+/**
+ * Run a custom module's command the way starship does (command on the shell's stdin), resolving with its wall time
+ */
+export function timeCustomModule(module: StarshipCustomModule, cwd: string): Promise<number> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+        const child = spawn(module.shell[0], module.shell.slice(1), { cwd, stdio: ['pipe', 'ignore', 'pipe'] });
+        let stderr = '';
+        const timer = setTimeout(() => child.kill(), RUN_TIMEOUT_MS);
+
+        child.stderr.on('data', chunk => { stderr += chunk; });
+        child.on('error', error => {
+            clearTimeout(timer);
+            reject(error);
+        });
+        child.on('close', (code, signal) => {
+            clearTimeout(timer);
+            if (signal) {
+                reject(new Error(`stopped after ${RUN_TIMEOUT_MS / 1000}s`));
+            } else if (code !== 0 && stderr.trim()) {
+                reject(new Error(stderr.trim().split('\n')[0]));
+            } else {
+                resolve(Date.now() - started);
+            }
+        });
+        child.stdin.end(module.command);
+    });
+}
+
+/**
+ * Time a shell function defined by a script, measured inside bash so startup does not count
+ */
+export function timeBashFunction(script: string, functionName: string, cwd: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        execFile('bash', ['--noprofile', '--norc', '-c', `${script}\nTIMEFORMAT=%3R\n{ time ${functionName} >/dev/null 2>&1; } 2>&1`], {
+            cwd,
+            timeout: RUN_TIMEOUT_MS
+        }, (error, stdout, stderr) => {
+            const seconds = Number(stdout.trim().split('\n').pop());
+            if (error || Number.isNaN(seconds)) {
+                reject(new Error(stderr.trim() || error?.message || 'no timing printed'));
+            } else {
+                resolve(Math.round(seconds * 1000));
+            }
+        });
+    });
+}
+
+// Helper: Format milliseconds, marking slow ones
+function formatMs(durationMs: number | undefined): string {
+    if (durationMs === undefined) {
+        return '-';
+    }
+    const text = durationMs < 1 ? '<1ms' : `${Math.round(durationMs)}ms`;
+    return durationMs >= SLOW_MODULE_MS ? `🐢 **${text}**` : text;
+}
+
+// Helper: Make text safe for a Markdown table cell
+// Errors hold real line breaks, `starship timings` escapes them in module output as \n - both become spaces
+function cell(text: string): string {
+    return text.replace(/\r?\n|\\n/g, ' ').replace(/\|/g, '\\|').replace(/`/g, "'").trim();
+}
+
+/**
+ * Render the diagnosis of every folder as Markdown
+ */
+export function renderPromptReport(diagnoses: FolderDiagnosis[], context: PromptReportContext): string {
+    const lines = [
+        '# Colorful Carbon: Prompt Diagnosis',
+        '',
+        `Config: \`${context.configPath}\` · ${new Date().toLocaleString()}`,
+        '',
+        `Modules taking ${SLOW_MODULE_MS}ms or more are marked 🐢.`
+    ];
+
+    diagnoses.forEach(diagnosis => {
+        lines.push('', `## ${diagnosis.folder}`, '');
+        lines.push(`Whole prompt (\`starship prompt\`): ${formatMs(diagnosis.promptMs)}`);
+
+        lines.push('', '### Modules (`starship timings`)', '');
+        if (diagnosis.timingsError) {
+            lines.push(`Could not run starship: ${diagnosis.timingsError}`);
+        } else if (diagnosis.timings.length === 0) {
+            lines.push('No module took 1ms or more.');
+        } else {
+            lines.push('| Module | Time | Set up in | Output |', '|---|---|---|---|');
+            [...diagnosis.timings]
+                .sort((a, b) => b.durationMs - a.durationMs)
+                .forEach(timing => lines.push(`| ${timing.name} | ${formatMs(timing.durationMs)} | ${
+                    context.describeModule(timing.name) ?? 'starship defaults'} | \`${cell(timing.output) || ' '}\` |`));
+        }
+
+        lines.push('', '### Custom modules on their own', '');
+        if (diagnosis.customModules.length === 0) {
+            lines.push('The config has no custom modules.');
+        } else {
+            lines.push('| Module | First run | Repeat run | Set up in |', '|---|---|---|---|');
+            diagnosis.customModules.forEach(module => {
+                const name = `custom.${module.name}`;
+                const timing = module.error
+                    ? `failed: ${cell(module.error)} | -`
+                    : `${formatMs(module.firstRunMs)} | ${formatMs(module.repeatRunMs)}`;
+                lines.push(`| ${name} | ${timing} | ${context.describeModule(name) ?? 'starship defaults'} |`);
+            });
+        }
+
+        lines.push('', '### Smart Fetch hook', '');
+        lines.push(diagnosis.fetchHookError
+            ? `Not measured: ${diagnosis.fetchHookError}`
+            : `Check before each prompt (shell block, measured in bash without fetching): ${formatMs(diagnosis.fetchHookMs)}`);
+
+        lines.push('', '<details><summary><code>starship explain</code></summary>', '', '```', stripAnsi(diagnosis.explain).trim(), '```', '', '</details>');
+    });
+
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,131 @@
+import { PromptColors } from './palette';
+
+/*
+ * Prompt layout - which starship modules the theme shows, in what order, and how
+ *
+ * The format line lists modules explicitly, so a module is shown exactly when it is in
+ * the list. Language and tool modules get a themed table only once they are listed.
+ * Everything comes from the colorfulCarbon.prompt.* settings.
+ */
+
+// Modules the theme always styles
+export const CORE_PROMPT_MODULES = [
+    'username',
+    'hostname',
+    'directory',
+    'git_branch',
+    'git_prompt',
+    'git_status',
+    'cmd_duration',
+    'time',
+    'nodejs',
+    'python'
+] as const;
+
+// Language and tool modules styled on demand
+export const TOOL_PROMPT_MODULES = [
+    'rust',
+    'golang',
+    'java',
+    'docker_context',
+    'kubernetes',
+    'aws',
+    'terraform'
+] as const;
+
+export type PromptModuleId = typeof CORE_PROMPT_MODULES[number] | typeof TOOL_PROMPT_MODULES[number];
+export type ToolPromptModuleId = typeof TOOL_PROMPT_MODULES[number];
+
+export interface PromptLayout {
+    // Shown modules in prompt order (the prompt character always ends the prompt)
+    modules: PromptModuleId[];
+    // strftime format of the time module
+    timeFormat: string;
+    // Prompt character on a line of its own
+    twoLine: boolean;
+    // Only show the hostname in SSH sessions
+    hostnameSshOnly: boolean;
+    // Parent directories shown before the path is truncated
+    directoryTruncation: number;
+}
+
+export const DEFAULT_PROMPT_LAYOUT: PromptLayout = {
+    modules: ['username', 'hostname', 'directory', 'git_branch', 'git_prompt', 'git_status', 'cmd_duration', 'time'],
+    timeFormat: '%d %b %Y %H:%M',
+    twoLine: true,
+    hostnameSshOnly: false,
+    directoryTruncation: 3
+};
+
+// Themed table of each tool module, given its palette color
+const TOOL_TABLES: Record<ToolPromptModuleId, (color: string) => string> = {
+    rust: color => `[rust]
+symbol = "🦀 "
+style = "bold ${color}"
+format = 'via [$symbol($version)]($style) '`,
+    golang: color => `[golang]
+symbol = "🐹 "
+style = "bold ${color}"
+format = 'via [$symbol($version)]($style) '`,
+    java: color => `[java]
+symbol = "☕ "
+style = "bold ${color}"
+format = 'via [$symbol($version)]($style) '`,
+    docker_context: color => `[docker_context]
+symbol = "🐳 "
+style = "bold ${color}"
+format = 'via [$symbol$context]($style) '`,
+    kubernetes: color => `[kubernetes]
+disabled = false
+symbol = "☸ "
+style = "bold ${color}"
+format = 'on [$symbol$context( \\($namespace\\))]($style) '`,
+    aws: color => `[aws]
+symbol = "☁️ "
+style = "bold ${color}"
+format = 'on [$symbol($profile )(\\($region\\) )]($style)'`,
+    terraform: color => `[terraform]
+symbol = "💠 "
+style = "bold ${color}"
+format = 'via [$symbol$workspace]($style) '`
+};
+
+// Palette color of each tool module
+const TOOL_COLORS: Record<ToolPromptModuleId, keyof PromptColors> = {
+    rust: 'rust',
+    golang: 'golang',
+    java: 'java',
+    docker_context: 'docker',
+    kubernetes: 'kubernetes',
+    aws: 'aws',
+    terraform: 'terraform'
+};
+
+/**
+ * Keep known modules, each once, in the given order
+ */
+export function normalizePromptModules(modules: readonly string[]): PromptModuleId[] {
+    const known = new Set<string>([...CORE_PROMPT_MODULES, ...TOOL_PROMPT_MODULES]);
+    return [...new Set(modules)].filter((module): module is PromptModuleId => known.has(module));
+}
+
+/**
+ * Render the format line
+ */
+export function renderPromptFormat(layout: PromptLayout): string {
+    const variables = [
+        ...layout.modules.map(module => module === 'git_prompt' ? '${custom.git_prompt}' : `$${module}`),
+        ...(layout.twoLine ? ['$line_break'] : []),
+        '$character'
+    ];
+    return `format = """\n${variables.join('\\\n')}"""`;
+}
+
+/**
+ * Render the themed tables of the tool modules in the layout
+ */
+export function renderToolModules(layout: PromptLayout, colors: PromptColors): string[] {
+    return TOOL_PROMPT_MODULES
+        .filter(module => layout.modules.includes(module))
+        .map(module => TOOL_TABLES[module](colors[TOOL_COLORS[module]]));
+}
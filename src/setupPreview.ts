@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+
+export const PREVIEW_SCHEME = 'colorful-carbon-preview';
+
+// One diff editor: current content on the left, planned content on the right
+export interface PreviewDiff {
+    title: string;
+    // Document name - its extension picks the language of both sides
+    name: string;
+    before: string;
+    after: string;
+}
+
+/**
+ * Serve the in-memory before/after documents that preview diff editors show
+ */
+export class PreviewContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly documents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.path) ?? '';
+    }
+
+    /**
+     * Open one diff editor per entry (replaces the documents of a previous preview)
+     */
+    async showDiffs(diffs: PreviewDiff[]): Promise<void> {
+        for (const diff of diffs) {
+            const before = this.setDocument(`/before/${diff.name}`, diff.before);
+            const after = this.setDocument(`/after/${diff.name}`, diff.after);
+            await vscode.commands.executeCommand('vscode.diff', before, after, diff.title, { preview: false });
+        }
+    }
+
+    /**
+     * Open a read-only Markdown document in the preview (reports)
+     */
+    async showMarkdown(name: string, content: string): Promise<void> {
+        const uri = this.setDocument(`/report/${name}`, content);
+        await vscode.commands.executeCommand('markdown.showPreview', uri);
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+        this.documents.clear();
+    }
+
+    private setDocument(documentPath: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: documentPath });
+        this.documents.set(documentPath, content);
+        this.changeEmitter.fire(uri);
+        return uri;
+    }
+}
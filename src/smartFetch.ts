@@ -0,0 +1,380 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/*
+ * Smart Git Fetch policy - what the background fetch does and how often
+ *
+ * The shells get the policy baked into their managed block and starship's
+ * "(#synced)" check gets the freshness window; both are regenerated when the
+ * colorfulCarbon.smartFetch.* settings change.
+ *
+ * Shells and the extension share ~/.git-fetch-cache: <hash> holds the time of the
+ * last successful fetch (epoch seconds), <hash>.lock holds "<pid> <start time>"
+ * while one runs, <hash>.path names the repository so the hashes can be mapped
+ * back to paths, and <hash>.errors journals the failures since the last success.
+ */
+
+export interface SmartFetchPolicy {
+    // Minutes before a repository is fetched again
+    intervalMinutes: number;
+    // Remotes to fetch (empty: all remotes)
+    remotes: string[];
+    prune: boolean;
+    tags: boolean;
+    // Repository path globs (~ for home); an empty include list means every repository
+    include: string[];
+    exclude: string[];
+    // Minutes a fetch stays recent enough for the prompt to claim "(#synced)"
+    freshnessMinutes: number;
+}
+
+export const DEFAULT_SMART_FETCH_POLICY: SmartFetchPolicy = {
+    intervalMinutes: 15,
+    remotes: [],
+    prune: true,
+    tags: true,
+    include: [],
+    exclude: [],
+    freshnessMinutes: 15
+};
+
+// Remote names end up in shell code, so only plain names are accepted
+const REMOTE_NAME_PATTERN = /^[A-Za-z0-9._\-/]+$/;
+
+// auth: credentials refused | network: remote unreachable | missing-remote: remote or repository gone
+export type FetchErrorClass = 'auth' | 'network' | 'missing-remote' | 'other';
+
+// One failed fetch, as journaled in <hash>.errors ("<epoch seconds>\t<class>\t<first fatal/error line>")
+export interface FetchFailure {
+    at: number;
+    errorClass: FetchErrorClass;
+    message: string;
+}
+
+// One entry of the fetch cache, as the cache explorer shows it
+export interface FetchCacheEntry {
+    hash: string;
+    cacheFile: string;
+    // Undefined for repositories fetched before the path index existed
+    repoRoot?: string;
+    // Epoch seconds of the last successful fetch, 0 if none
+    lastFetch: number;
+    // Epoch milliseconds the lock was taken, undefined when not locked
+    lockedSince?: number;
+    // The next fetch will reclaim the lock
+    lockStale: boolean;
+    // Failures since the last successful fetch, oldest first
+    failures: FetchFailure[];
+}
+
+const LOCK_SUFFIX = '.lock';
+const PATH_SUFFIX = '.path';
+const ERRORS_SUFFIX = '.errors';
+
+// A lock is reclaimed once its process is gone or it is older than this (also covers PID reuse)
+export const STALE_LOCK_SECONDS = 10 * 60;
+
+// A lock without a PID may still be being written (shells create it, then write "<pid> <start time>")
+export const LOCK_GRACE_SECONDS = 60;
+
+// Failures kept per repository
+export const MAX_JOURNALED_FAILURES = 10;
+
+// git's stderr -> error class, checked in order (shared with the shells' case statement)
+export const FETCH_ERROR_PATTERNS: [FetchErrorClass, string[]][] = [
+    ['auth', [
+        'Authentication failed',
+        'Permission denied',
+        'could not read Username',
+        'terminal prompts disabled',
+        'Host key verification failed',
+        'returned error: 401',
+        'returned error: 403'
+    ]],
+    ['missing-remote', [
+        'does not appear to be a git repository',
+        'No such remote',
+        'Repository not found',
+        'returned error: 404'
+    ]],
+    ['network', [
+        'Could not resolve host',
+        'Could not resolve hostname',
+        'timed out',
+        'Connection refused',
+        'Connection reset',
+        'Network is unreachable',
+        'unable to access',
+        'early EOF'
+    ]]
+];
+
+/**
+ * Check if a remote name is safe to fetch
+ */
+export function isValidRemoteName(name: string): boolean {
+    return REMOTE_NAME_PATTERN.test(name) && !name.startsWith('-');
+}
+
+/**
+ * Get the git arguments of one background fetch, e.g. ['fetch', '--quiet', '--all', '--prune', '--tags']
+ */
+export function getFetchArgs(policy: SmartFetchPolicy): string[] {
+    const remotes = policy.remotes.filter(isValidRemoteName);
+    return [
+        'fetch',
+        '--quiet',
+        ...(remotes.length === 0 ? ['--all'] : []),
+        ...(policy.prune ? ['--prune'] : []),
+        ...(policy.tags ? ['--tags'] : []),
+        ...(remotes.length > 0 ? ['--multiple', ...remotes] : [])
+    ];
+}
+
+/**
+ * Get the fetch cache directory shared with the shells
+ */
+export function getFetchCacheDir(homeDir: string): string {
+    return path.join(homeDir, '.git-fetch-cache');
+}
+
+/**
+ * Get the cache file of a repository - the same sha256 of its path the shells compute with shasum
+ */
+export function getFetchCacheFile(homeDir: string, repoRoot: string): string {
+    const hash = crypto.createHash('sha256').update(repoRoot).digest('hex');
+    return path.join(getFetchCacheDir(homeDir), hash);
+}
+
+/**
+ * Read when a repository was last fetched (epoch seconds, 0 if never)
+ */
+export function readLastFetch(cacheFile: string): number {
+    try {
+        return parseInt(fs.readFileSync(cacheFile, 'utf8').trim(), 10) || 0;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Record a successful fetch started at `fetchedAt` (epoch seconds)
+ */
+export function writeLastFetch(cacheFile: string, fetchedAt: number): void {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(cacheFile, `${fetchedAt}\n`);
+}
+
+// Helper: Check if a process is still running (EPERM: running, owned by someone else)
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Check if a lock was left behind by a fetch that died (terminal closed, laptop slept)
+ * Locks without a PID (half written, or from older versions) are stale once past the grace period
+ */
+export function isLockStale(cacheFile: string, now: number = Date.now()): boolean {
+    let content: string;
+    let modifiedAt: number;
+    try {
+        content = fs.readFileSync(`${cacheFile}${LOCK_SUFFIX}`, 'utf8');
+        modifiedAt = fs.statSync(`${cacheFile}${LOCK_SUFFIX}`).mtimeMs;
+    } catch {
+        return false;
+    }
+
+    const [pid, startedAt] = content.trim().split(/\s+/).map(value => parseInt(value, 10));
+    if (!pid) {
+        return now - modifiedAt >= LOCK_GRACE_SECONDS * 1000;
+    }
+    // Without a start time (written by hand or cut short) the lock file's age stands in for it
+    const ageSeconds = startedAt ? now / 1000 - startedAt : (now - modifiedAt) / 1000;
+    return !isProcessAlive(pid) || ageSeconds >= STALE_LOCK_SECONDS;
+}
+
+/**
+ * Take the lock of a repository, reclaiming a stale one
+ * False if a shell or another window is already fetching it
+ */
+export function acquireFetchLock(cacheFile: string, now: number = Date.now()): boolean {
+    const lockFile = `${cacheFile}${LOCK_SUFFIX}`;
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+
+    if (isLockStale(cacheFile, now)) {
+        fs.rmSync(lockFile, { force: true });
+    }
+
+    try {
+        fs.writeFileSync(lockFile, `${process.pid} ${Math.floor(now / 1000)}\n`, { flag: 'wx' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Release the lock of a repository
+ */
+export function releaseFetchLock(cacheFile: string): void {
+    fs.rmSync(`${cacheFile}${LOCK_SUFFIX}`, { force: true });
+}
+
+/**
+ * Classify a failed fetch by its stderr
+ */
+export function classifyFetchError(stderr: string): FetchErrorClass {
+    const match = FETCH_ERROR_PATTERNS.find(([, patterns]) => patterns.some(pattern => stderr.includes(pattern)));
+    return match ? match[0] : 'other';
+}
+
+/**
+ * Journal a failed fetch (its first fatal/error line), keeping the newest MAX_JOURNALED_FAILURES
+ */
+export function recordFetchFailure(cacheFile: string, stderr: string, now: number = Date.now()): FetchFailure {
+    const line = stderr.split('\n').find(candidate => /^(fatal|error): /.test(candidate));
+    const failure: FetchFailure = {
+        at: Math.floor(now / 1000),
+        errorClass: classifyFetchError(stderr),
+        message: (line ?? stderr.trim().split('\n')[0] ?? '').replace(/\t/g, ' ') || 'git fetch failed'
+    };
+
+    const journal = [...readFetchFailures(cacheFile), failure].slice(-MAX_JOURNALED_FAILURES);
+    const journalFile = `${cacheFile}${ERRORS_SUFFIX}`;
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(`${journalFile}.tmp`, journal.map(entry => `${entry.at}\t${entry.errorClass}\t${entry.message}\n`).join(''));
+    fs.renameSync(`${journalFile}.tmp`, journalFile);
+    return failure;
+}
+
+/**
+ * Read the failures since the last successful fetch, oldest first
+ */
+export function readFetchFailures(cacheFile: string): FetchFailure[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(`${cacheFile}${ERRORS_SUFFIX}`, 'utf8');
+    } catch {
+        return [];
+    }
+
+    return content.split('\n').filter(line => line !== '').map(line => {
+        const [at, errorClass, ...message] = line.split('\t');
+        return { at: parseInt(at, 10) || 0, errorClass: errorClass as FetchErrorClass, message: message.join('\t') };
+    });
+}
+
+/**
+ * Clear the failure journal after a successful fetch
+ */
+export function clearFetchFailures(cacheFile: string): void {
+    fs.rmSync(`${cacheFile}${ERRORS_SUFFIX}`, { force: true });
+}
+
+/**
+ * Record which repository a cache file belongs to
+ */
+export function writeRepositoryPath(cacheFile: string, repoRoot: string): void {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(`${cacheFile}${PATH_SUFFIX}`, `${repoRoot}\n`);
+}
+
+/**
+ * List every repository the cache knows about, by timestamp, lock or path file
+ */
+export function listFetchCache(homeDir: string): FetchCacheEntry[] {
+    const cacheDir = getFetchCacheDir(homeDir);
+    if (!fs.existsSync(cacheDir)) {
+        return [];
+    }
+
+    const hashes = new Set(fs.readdirSync(cacheDir)
+        .filter(file => !file.endsWith('.tmp'))
+        .map(file => file.replace(/\.(lock|path|errors)$/, ''))
+        .filter(hash => !hash.startsWith('.')));
+
+    return [...hashes].map(hash => {
+        const cacheFile = path.join(cacheDir, hash);
+        let repoRoot: string | undefined;
+        let lockedSince: number | undefined;
+
+        try {
+            repoRoot = fs.readFileSync(`${cacheFile}${PATH_SUFFIX}`, 'utf8').trim() || undefined;
+        } catch {
+            // Not indexed yet
+        }
+        try {
+            lockedSince = fs.statSync(`${cacheFile}${LOCK_SUFFIX}`).mtimeMs;
+        } catch {
+            // Not locked
+        }
+
+        return {
+            hash,
+            cacheFile,
+            repoRoot,
+            lastFetch: readLastFetch(cacheFile),
+            lockedSince,
+            lockStale: lockedSince !== undefined && isLockStale(cacheFile),
+            failures: readFetchFailures(cacheFile)
+        };
+    });
+}
+
+/**
+ * Remove a repository from the cache (timestamp, lock, path and journal)
+ * Its next prompt or workspace round fetches it again
+ */
+export function forgetRepository(cacheFile: string): void {
+    [cacheFile, `${cacheFile}${LOCK_SUFFIX}`, `${cacheFile}${PATH_SUFFIX}`, `${cacheFile}${ERRORS_SUFFIX}`]
+        .forEach(file => fs.rmSync(file, { force: true }));
+}
+
+// Helper: Turn a shell glob into a RegExp (* crosses directories like in [[ == ]])
+// A bracket that does not form a valid class (like [z-a]) matches itself, so no glob can throw
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        const classEnd = char === '[' ? glob.indexOf(']', i + 2) : -1;
+        const charClass = classEnd === -1
+            ? undefined
+            : `[${glob.slice(i + 1, classEnd).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+
+        if (char === '*') {
+            source += '.*';
+        } else if (char === '?') {
+            source += '.';
+        } else if (charClass && isValidRegExp(charClass)) {
+            source += charClass;
+            i = classEnd;
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// Helper: Check that a RegExp source compiles
+function isValidRegExp(source: string): boolean {
+    try {
+        new RegExp(source);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check if a repository is fetched under the include/exclude globs (~ for home)
+ */
+export function isRepositoryIncluded(policy: SmartFetchPolicy, repoRoot: string, homeDir: string): boolean {
+    const matches = (glob: string) => globToRegExp(glob.replace(/^~/, homeDir)).test(repoRoot);
+    return (policy.include.length === 0 || policy.include.some(matches)) && !policy.exclude.some(matches);
+}
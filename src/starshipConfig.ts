@@ -0,0 +1,293 @@
+/*
+ * Starship layering - the generated theme config with the user's own starship.toml on top
+ *
+ * Only as much TOML as layering needs: a document is split into tables and key
+ * entries, values are kept as raw text (multi-line strings and arrays included),
+ * so the user's entries are copied over byte for byte, comments and all.
+ */
+
+interface TomlEntry {
+    key: string;
+    // Raw lines of the entry, including comments written directly above it
+    text: string;
+}
+
+interface TomlTable {
+    // Normalized table name ('' for root keys, '[[name]]' for arrays of tables)
+    name: string;
+    // Raw header line ('' for root) with the comments written directly above it
+    header: string;
+    entries: TomlEntry[];
+    // Comments after the last entry of the document
+    trailing: string[];
+}
+
+type StringState = 'none' | 'basic' | 'literal' | 'multilineBasic' | 'multilineLiteral';
+
+const HEADER_PATTERN = /^\s*(\[\[?)\s*([^\]]+?)\s*\]\]?\s*(?:#.*)?$/;
+const KEY_PATTERN = /^\s*("(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_.\-\s"']+?)\s*=/;
+
+// Helper: Drop blank lines around a block of comment lines
+function trimBlankLines(lines: string[]): string[] {
+    const first = lines.findIndex(line => line.trim() !== '');
+    if (first === -1) {
+        return [];
+    }
+    const last = lines.length - [...lines].reverse().findIndex(line => line.trim() !== '');
+    return lines.slice(first, last);
+}
+
+// Helper: Normalize a table or key name so [ custom.git ] and [custom.git] match
+function normalizeName(name: string): string {
+    return name.split('.').map(part => part.trim().replace(/^"(.*)"$|^'(.*)'$/, '$1$2')).join('.');
+}
+
+/**
+ * Scan one line and return the string state and bracket depth after it
+ * Comments end the scan; anything inside strings is ignored
+ */
+function scanLine(line: string, state: StringState, depth: number): { state: StringState; depth: number } {
+    for (let i = 0; i < line.length; i++) {
+        const rest = line.slice(i);
+        const char = line[i];
+
+        switch (state) {
+            case 'multilineBasic':
+                if (char === '\\') {
+                    i++;
+                } else if (rest.startsWith('"""')) {
+                    state = 'none';
+                    i += 2;
+                }
+                break;
+            case 'multilineLiteral':
+                if (rest.startsWith("'''")) {
+                    state = 'none';
+                    i += 2;
+                }
+                break;
+            case 'basic':
+                if (char === '\\') {
+                    i++;
+                } else if (char === '"') {
+                    state = 'none';
+                }
+                break;
+            case 'literal':
+                if (char === "'") {
+                    state = 'none';
+                }
+                break;
+            default:
+                if (char === '#') {
+                    return { state, depth };
+                } else if (rest.startsWith('"""')) {
+                    state = 'multilineBasic';
+                    i += 2;
+                } else if (rest.startsWith("'''")) {
+                    state = 'multilineLiteral';
+                    i += 2;
+                } else if (char === '"') {
+                    state = 'basic';
+                } else if (char === "'") {
+                    state = 'literal';
+                } else if (char === '[' || char === '{') {
+                    depth++;
+                } else if (char === ']' || char === '}') {
+                    depth--;
+                }
+        }
+    }
+
+    // Single-line strings cannot continue on the next line
+    return { state: state === 'basic' || state === 'literal' ? 'none' : state, depth };
+}
+
+/**
+ * Split a TOML document into tables of raw entries
+ */
+function parseTables(content: string): TomlTable[] {
+    const tables: TomlTable[] = [{ name: '', header: '', entries: [], trailing: [] }];
+    let pending: string[] = [];
+    let current: TomlEntry | undefined;
+    let state: StringState = 'none';
+    let depth = 0;
+
+    content.split('\n').forEach(line => {
+        const table = tables[tables.length - 1];
+
+        // Continuation of a multi-line value
+        if (current) {
+            current.text += `\n${line}`;
+            ({ state, depth } = scanLine(line, state, depth));
+            if (state === 'none' && depth <= 0) {
+                current = undefined;
+            }
+            return;
+        }
+
+        const header = line.match(HEADER_PATTERN);
+        if (header) {
+            const comments = trimBlankLines(pending);
+            pending = [];
+            const name = normalizeName(header[2]);
+            tables.push({
+                name: header[1] === '[[' ? `[[${name}]]` : name,
+                header: [...comments, line].join('\n'),
+                entries: [],
+                trailing: []
+            });
+            return;
+        }
+
+        const key = line.match(KEY_PATTERN);
+        if (key) {
+            const entry = { key: normalizeName(key[1]), text: [...pending, line].join('\n') };
+            pending = [];
+            table.entries.push(entry);
+            ({ state, depth } = scanLine(line.slice(key[0].length), 'none', 0));
+            if (state !== 'none' || depth > 0) {
+                current = entry;
+            }
+            return;
+        }
+
+        // Comments and blank lines wait for the entry they describe
+        pending.push(line);
+    });
+
+    tables[tables.length - 1].trailing = pending;
+    return tables;
+}
+
+// Helper: Render a table back to text
+function renderTable(table: TomlTable, entries: TomlEntry[]): string {
+    return [table.header, ...entries.map(entry => entry.text), ...trimBlankLines(table.trailing)]
+        .join('\n')
+        .replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Layer the user's config on top of the generated one
+ * User keys replace generated keys, user-only keys and tables are added, nothing of the user's is dropped
+ */
+export function layerStarshipConfig(generated: string, user: string, header: string): string {
+    const baseTables = parseTables(generated);
+    const userTables = parseTables(user);
+    const userByName = new Map(userTables.map(table => [table.name, table]));
+
+    const merged = baseTables.map(table => {
+        const userTable = userByName.get(table.name);
+        if (!userTable || table.name.startsWith('[[')) {
+            return renderTable(table, table.entries);
+        }
+        userByName.delete(table.name);
+
+        const userKeys = new Set(userTable.entries.map(entry => entry.key));
+        const entries = [
+            ...table.entries.filter(entry => !userKeys.has(entry.key)),
+            ...userTable.entries
+        ];
+        return renderTable(table, entries);
+    });
+
+    // Tables only the user has (arrays of tables are always the user's own)
+    const userOnly = userTables
+        .filter(table => userByName.has(table.name) || table.name.startsWith('[['))
+        .filter(table => table.name !== '' || table.entries.length > 0)
+        .map(table => renderTable(table, table.entries));
+
+    return `${header}\n\n${[...merged, ...userOnly].filter(text => text.trim() !== '').join('\n\n')}\n`;
+}
+
+/**
+ * Remove every entry that exactly matches one of the generated configs
+ * Used to turn a starship.toml written by older versions into the user's own layer
+ */
+export function subtractStarshipConfig(user: string, generatedConfigs: string[]): string {
+    const generatedEntries = new Set<string>();
+    generatedConfigs.forEach(config => parseTables(config).forEach(table => {
+        table.entries.forEach(entry => generatedEntries.add(`${table.name}\u0000${entry.key}\u0000${entry.text.trim()}`));
+    }));
+
+    const remaining = parseTables(user).map(table => ({
+        table,
+        entries: table.entries.filter(entry =>
+            !generatedEntries.has(`${table.name}\u0000${entry.key}\u0000${entry.text.trim()}`)
+        )
+    }));
+
+    return remaining
+        .filter(({ entries }) => entries.length > 0)
+        .map(({ table, entries }) => renderTable({ ...table, trailing: [] }, entries))
+        .join('\n\n')
+        .trim();
+}
+
+/**
+ * Get the names of the tables a config defines ('' for root keys is left out)
+ */
+export function getTableNames(content: string): string[] {
+    return parseTables(content).map(table => table.name).filter(name => name !== '');
+}
+
+export interface StarshipCustomModule {
+    // Table name without the custom. prefix
+    name: string;
+    command: string;
+    // Shell and arguments starship runs the command with (the command goes to its stdin)
+    shell: string[];
+}
+
+// Helper: Decode a TOML string value (basic, literal and their multi-line forms)
+function decodeTomlString(raw: string): string | undefined {
+    const value = raw.trim();
+    const multiline = value.match(/^('''|""")\n?([\s\S]*?)\1/);
+    if (multiline) {
+        return multiline[1] === "'''" ? multiline[2] : decodeBasicString(multiline[2].replace(/\\\n\s*/g, ''));
+    }
+    const literal = value.match(/^'([^']*)'/);
+    if (literal) {
+        return literal[1];
+    }
+    const basic = value.match(/^"((?:[^"\\]|\\.)*)"/);
+    return basic ? decodeBasicString(basic[1]) : undefined;
+}
+
+// Helper: Resolve the escapes of a basic string
+function decodeBasicString(body: string): string {
+    const escapes: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+    return body.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (escape, code: string) =>
+        code.length > 1 ? String.fromCodePoint(parseInt(code.slice(1), 16)) : escapes[code] ?? escape);
+}
+
+// Helper: Get an entry's raw value (the text after "key =", without the comments above it)
+function getRawValue(entry: TomlEntry): string {
+    const lines = entry.text.split('\n');
+    const keyLine = lines.findIndex(line => KEY_PATTERN.test(line));
+    return lines.slice(keyLine).join('\n').replace(KEY_PATTERN, '');
+}
+
+/**
+ * Get the custom modules of a config with the command and shell starship would run
+ * Modules without a string command (or with an unreadable one) are left out
+ */
+export function getCustomModules(content: string): StarshipCustomModule[] {
+    return parseTables(content)
+        .filter(table => table.name.startsWith('custom.'))
+        .flatMap(table => {
+            const entries = new Map(table.entries.map(entry => [entry.key, getRawValue(entry)]));
+            const command = decodeTomlString(entries.get('command') ?? '');
+            if (command === undefined) {
+                return [];
+            }
+
+            // shell = "bash" or ["bash", "--noprofile"]; starship falls back to sh
+            const rawShell = entries.get('shell')?.trim() ?? '';
+            const shell = rawShell.startsWith('[')
+                ? (rawShell.match(/"(?:[^"\\]|\\.)*"|'[^']*'/g) ?? []).map(item => decodeTomlString(item) ?? '')
+                : [decodeTomlString(rawShell) ?? 'sh'];
+
+            return [{ name: table.name.slice('custom.'.length), command, shell: shell.length > 0 ? shell : ['sh'] }];
+        });
+}
@@ -0,0 +1,78 @@
+// Types only, so the profile files can be built without VS Code (the provider is in terminalProfileProvider)
+import type * as vscode from 'vscode';
+import * as path from 'path';
+
+/*
+ * Zero-footprint terminal profile - the makeover without touching a single dotfile
+ *
+ * The "Colorful Carbon zsh" profile starts zsh with ZDOTDIR pointing at a shim directory in
+ * VS Code's global storage. Each shim file runs the user's own startup file first, and the
+ * shim .zshrc then sources the Colorful Carbon block. Starship and git find their generated
+ * config through the profile's environment, so nothing in the home folder is written.
+ */
+
+export const TERMINAL_PROFILE_ID = 'colorful-carbon.zsh';
+export const TERMINAL_PROFILE_TITLE = 'Colorful Carbon zsh';
+
+// Files inside the profile directory
+export const PROFILE_FILES = {
+    ZDOTDIR: 'zdotdir',
+    BLOCK: 'colorful-carbon.zsh',
+    STARSHIP_CONFIG: 'starship.toml',
+    GIT_PROMPT: 'git-prompt.sh',
+    GIT_COLORS: 'gitconfig',
+    THEME_MARKER: 'theme',
+    VARIANTS_DIR: 'variants'
+} as const;
+
+// Startup files zsh reads from ZDOTDIR, in the order it reads them
+const ZSH_STARTUP_FILES = ['.zshenv', '.zprofile', '.zshrc', '.zlogin'] as const;
+
+// Helper: Quote a path for zsh
+function quoteZsh(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Get the shim startup files, by name (they go into PROFILE_FILES.ZDOTDIR)
+ * ZDOTDIR is the user's own while their file runs, then the shim's again so zsh keeps reading ours
+ */
+export function getZdotdirShim(profileDir: string): Record<string, string> {
+    const shimDir = quoteZsh(path.join(profileDir, PROFILE_FILES.ZDOTDIR));
+    const block = quoteZsh(path.join(profileDir, PROFILE_FILES.BLOCK));
+
+    return Object.fromEntries(ZSH_STARTUP_FILES.map(file => [file, `# Colorful Carbon zsh profile (generated - changes are overwritten)
+# Runs your own ${file} first, as if the profile were not there
+ZDOTDIR=\${COLORFUL_CARBON_ZDOTDIR:-$HOME}
+[[ -f "$ZDOTDIR/${file}" ]] && source "$ZDOTDIR/${file}"
+${file === '.zshenv' ? `# Your .zshenv may move the other startup files (export ZDOTDIR=...)
+COLORFUL_CARBON_ZDOTDIR=$ZDOTDIR
+` : ''}ZDOTDIR=${shimDir}
+${file === '.zshrc' ? `
+source ${block}
+` : ''}`]));
+}
+
+/**
+ * Get the terminal options of the profile, showing a window's variant
+ * Git colors come in as command-line config (GIT_CONFIG_COUNT, git 2.31+) instead of an include in ~/.gitconfig,
+ * appended after any GIT_CONFIG_KEY_<n> entries the user already exports
+ */
+export function getZshProfileOptions(profileDir: string, variant: string, themeFile: string): vscode.TerminalOptions {
+    const configIndex = Math.max(parseInt(process.env.GIT_CONFIG_COUNT ?? '', 10) || 0, 0);
+
+    return {
+        name: TERMINAL_PROFILE_TITLE,
+        shellPath: 'zsh',
+        env: {
+            ZDOTDIR: path.join(profileDir, PROFILE_FILES.ZDOTDIR),
+            COLORFUL_CARBON_ZDOTDIR: process.env.ZDOTDIR,
+            COLORFUL_CARBON_THEME: variant,
+            COLORFUL_CARBON_THEME_FILE: themeFile,
+            STARSHIP_CONFIG: path.join(profileDir, PROFILE_FILES.VARIANTS_DIR, `${variant}.starship.toml`),
+            GIT_CONFIG_COUNT: String(configIndex + 1),
+            [`GIT_CONFIG_KEY_${configIndex}`]: 'include.path',
+            [`GIT_CONFIG_VALUE_${configIndex}`]: path.join(profileDir, PROFILE_FILES.GIT_COLORS)
+        }
+    };
+}
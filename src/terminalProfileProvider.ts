@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+import { getZshProfileOptions } from './terminalProfile';
+
+/**
+ * Provide the "Colorful Carbon zsh" profile, writing its files for the window's variant first
+ */
+export class ZshProfileProvider implements vscode.TerminalProfileProvider {
+    constructor(
+        private readonly profileDir: string,
+        // The window's variant, checked by open terminals before each prompt
+        private readonly themeFile: string,
+        // Writes the profile files and returns the variant to show
+        private readonly writeProfile: () => string
+    ) {}
+
+    provideTerminalProfile(): vscode.TerminalProfile {
+        const variant = this.writeProfile();
+        return new vscode.TerminalProfile(getZshProfileOptions(this.profileDir, variant, this.themeFile));
+    }
+}
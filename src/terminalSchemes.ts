@@ -0,0 +1,331 @@
+import * as crypto from 'crypto';
+import { AnsiColors, VariantPalette, buildWorkbenchColors } from './palette';
+
+/*
+ * Terminal schemes - the variant's terminal colors for terminal emulators outside VS Code
+ *
+ * The colors come from the workbench colors the variant's theme file is generated from
+ * (terminal.background, terminal.foreground, terminalCursor.* and terminal.ansi*), so
+ * named starship, git and zsh colors look the same in every terminal.
+ */
+
+export type SchemeFormatId = 'alacritty' | 'kitty' | 'wezterm' | 'gnome' | 'windowsTerminal' | 'iterm2' | 'xresources';
+
+export interface TerminalScheme {
+    name: string;
+    // File name without extension, e.g. "colorful-carbon-dark-knight"
+    slug: string;
+    background: string;
+    foreground: string;
+    cursor: string;
+    cursorText: string;
+    ansi: AnsiColors;
+}
+
+export interface SchemeFormat {
+    label: string;
+    // How to use the exported file
+    detail: string;
+    fileName(scheme: TerminalScheme): string;
+    render(scheme: TerminalScheme): string;
+}
+
+// ANSI colors in terminal order (color0 - color15)
+const ANSI_ORDER: (keyof AnsiColors)[] = [
+    'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+    'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+];
+
+// Helper: Normalize #RGB, #RRGGBB and #RRGGBBAA to #rrggbb (terminals take no alpha)
+function solid(color: string): string {
+    const hex = color.replace(/^#/, '');
+    const rgb = hex.length === 3 || hex.length === 4
+        ? hex.slice(0, 3).split('').map(digit => digit + digit).join('')
+        : hex.slice(0, 6);
+    return `#${rgb.toLowerCase()}`;
+}
+
+// Helper: Get the red, green and blue channels of a color (0-255)
+function channels(color: string): [number, number, number] {
+    const hex = solid(color);
+    return [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16)) as [number, number, number];
+}
+
+// Helper: Get the 16 ANSI colors in terminal order
+function ansiList(scheme: TerminalScheme): string[] {
+    return ANSI_ORDER.map(name => scheme.ansi[name]);
+}
+
+// Helper: Header line naming the variant, with a comment prefix
+function header(scheme: TerminalScheme, comment: string): string {
+    return `${comment} ${scheme.name} (generated by the Colorful Carbon VS Code extension)`;
+}
+
+/**
+ * Build the terminal scheme of a variant from its theme colors (ANSI colors missing there come from the palette)
+ */
+export function getTerminalScheme(palette: VariantPalette): TerminalScheme {
+    const colors = buildWorkbenchColors(palette);
+    const ansi = (name: keyof AnsiColors) => solid(colors[`terminal.ansi${name.charAt(0).toUpperCase()}${name.slice(1)}`] ?? palette.ansi[name]);
+    const background = solid(colors['terminal.background'] ?? palette.syntax.background);
+
+    return {
+        name: palette.name.replace(/\s+/g, ' '),
+        slug: palette.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || palette.id,
+        background,
+        foreground: solid(colors['terminal.foreground'] ?? palette.syntax.foreground),
+        cursor: solid(colors['terminalCursor.foreground'] ?? palette.accent),
+        cursorText: background,
+        ansi: {
+            black: ansi('black'),
+            red: ansi('red'),
+            green: ansi('green'),
+            yellow: ansi('yellow'),
+            blue: ansi('blue'),
+            magenta: ansi('magenta'),
+            cyan: ansi('cyan'),
+            white: ansi('white'),
+            brightBlack: ansi('brightBlack'),
+            brightRed: ansi('brightRed'),
+            brightGreen: ansi('brightGreen'),
+            brightYellow: ansi('brightYellow'),
+            brightBlue: ansi('brightBlue'),
+            brightMagenta: ansi('brightMagenta'),
+            brightCyan: ansi('brightCyan'),
+            brightWhite: ansi('brightWhite')
+        }
+    };
+}
+
+/**
+ * Alacritty (TOML, 0.13+) - imported from [general] since 0.14, from the top level in 0.13
+ */
+function renderAlacritty(scheme: TerminalScheme): string {
+    const list = ansiList(scheme);
+    const table = (colors: string[]) => ANSI_ORDER.slice(0, 8)
+        .map((name, index) => `${name} = "${colors[index]}"`)
+        .join('\n');
+
+    return `${header(scheme, '#')}
+# Use it from alacritty.toml: [general] import = ["~/.config/alacritty/${scheme.slug}.toml"]
+# (Alacritty 0.13: a top-level import = [...] instead of the [general] table)
+
+[colors.primary]
+background = "${scheme.background}"
+foreground = "${scheme.foreground}"
+
+[colors.cursor]
+text = "${scheme.cursorText}"
+cursor = "${scheme.cursor}"
+
+[colors.normal]
+${table(list.slice(0, 8))}
+
+[colors.bright]
+${table(list.slice(8))}
+`;
+}
+
+/**
+ * Kitty
+ */
+function renderKitty(scheme: TerminalScheme): string {
+    return `${header(scheme, '#')}
+# Use it from kitty.conf: include ${scheme.slug}.conf
+
+background ${scheme.background}
+foreground ${scheme.foreground}
+cursor ${scheme.cursor}
+cursor_text_color ${scheme.cursorText}
+
+${ansiList(scheme).map((color, index) => `color${index} ${color}`).join('\n')}
+`;
+}
+
+/**
+ * WezTerm (a Lua module returning the scheme)
+ */
+function renderWezTerm(scheme: TerminalScheme): string {
+    const list = (colors: string[]) => colors.map(color => `'${color}'`).join(', ');
+    const luaName = scheme.name.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+    return `${header(scheme, '--')}
+-- Save it in ~/.config/wezterm/ and use it from wezterm.lua:
+--   config.color_schemes = { ['${luaName}'] = require('${scheme.slug}') }
+--   config.color_scheme = '${luaName}'
+return {
+  foreground = '${scheme.foreground}',
+  background = '${scheme.background}',
+  cursor_bg = '${scheme.cursor}',
+  cursor_fg = '${scheme.cursorText}',
+  cursor_border = '${scheme.cursor}',
+  ansi = { ${list(ansiList(scheme).slice(0, 8))} },
+  brights = { ${list(ansiList(scheme).slice(8))} },
+}
+`;
+}
+
+/**
+ * GNOME Terminal (a script adding or updating a profile through dconf)
+ * The profile id is derived from the scheme name, so running the script again updates the same profile
+ */
+function renderGnome(scheme: TerminalScheme): string {
+    const hash = crypto.createHash('sha256').update(`colorful-carbon:${scheme.slug}`).digest('hex');
+    const profileId = `${hash.slice(0, 8)}-${hash.slice(8, 12)}-4${hash.slice(13, 16)}-a${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+    const gvariantName = scheme.name.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+    return `#!/bin/sh
+${header(scheme, '#')}
+# Adds a "${scheme.name}" profile to GNOME Terminal - run: sh ${scheme.slug}.sh
+set -e
+
+base=/org/gnome/terminal/legacy/profiles:
+id=${profileId}
+
+# Keep the profiles GNOME Terminal already lists (an empty list means only the built-in default)
+list=$(dconf read "$base/list")
+case "$list" in
+  *"$id"*) ;;
+  ""|"@as []")
+    default=$(dconf read "$base/default" | tr -d "'")
+    dconf write "$base/list" "['\${default:-b1dcc9dd-5262-4d8d-a863-c897e6d979b9}', '$id']" ;;
+  *) dconf write "$base/list" "\${list%]}, '$id']" ;;
+esac
+
+profile="$base/:$id"
+dconf write "$profile/visible-name" ${shellQuote(`'${gvariantName}'`)}
+dconf write "$profile/use-theme-colors" "false"
+dconf write "$profile/background-color" "'${scheme.background}'"
+dconf write "$profile/foreground-color" "'${scheme.foreground}'"
+dconf write "$profile/bold-color-same-as-fg" "true"
+dconf write "$profile/cursor-colors-set" "true"
+dconf write "$profile/cursor-background-color" "'${scheme.cursor}'"
+dconf write "$profile/cursor-foreground-color" "'${scheme.cursorText}'"
+dconf write "$profile/palette" "[${ansiList(scheme).map(color => `'${color}'`).join(', ')}]"
+
+echo "Added the ${scheme.name.replace(/["$`\\]/g, '')} profile - pick it in GNOME Terminal's preferences"
+`;
+}
+
+/**
+ * Windows Terminal (a JSON fragment - copy the scheme into settings.json or drop the file into a Fragments folder)
+ */
+function renderWindowsTerminal(scheme: TerminalScheme): string {
+    const windowsNames: Record<keyof AnsiColors, string> = {
+        black: 'black', red: 'red', green: 'green', yellow: 'yellow',
+        blue: 'blue', magenta: 'purple', cyan: 'cyan', white: 'white',
+        brightBlack: 'brightBlack', brightRed: 'brightRed', brightGreen: 'brightGreen', brightYellow: 'brightYellow',
+        brightBlue: 'brightBlue', brightMagenta: 'brightPurple', brightCyan: 'brightCyan', brightWhite: 'brightWhite'
+    };
+
+    return `${JSON.stringify({
+        schemes: [{
+            name: scheme.name,
+            background: scheme.background,
+            foreground: scheme.foreground,
+            cursorColor: scheme.cursor,
+            ...Object.fromEntries(ANSI_ORDER.map(name => [windowsNames[name], scheme.ansi[name]]))
+        }]
+    }, null, 4)}\n`;
+}
+
+/**
+ * iTerm2 (.itermcolors property list)
+ */
+function renderITerm2(scheme: TerminalScheme): string {
+    const entry = (key: string, color: string) => {
+        const [red, green, blue] = channels(color).map(channel => (channel / 255).toFixed(6));
+        return `\t<key>${key}</key>
+\t<dict>
+\t\t<key>Alpha Component</key>
+\t\t<real>1</real>
+\t\t<key>Blue Component</key>
+\t\t<real>${blue}</real>
+\t\t<key>Color Space</key>
+\t\t<string>sRGB</string>
+\t\t<key>Green Component</key>
+\t\t<real>${green}</real>
+\t\t<key>Red Component</key>
+\t\t<real>${red}</real>
+\t</dict>`;
+    };
+
+    const entries = [
+        ...ansiList(scheme).map((color, index) => entry(`Ansi ${index} Color`, color)),
+        entry('Background Color', scheme.background),
+        entry('Cursor Color', scheme.cursor),
+        entry('Cursor Text Color', scheme.cursorText),
+        entry('Foreground Color', scheme.foreground)
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<!--${header(scheme, '').replace(/--/g, '-')} - double-click to import into iTerm2 -->
+<plist version="1.0">
+<dict>
+${entries.join('\n')}
+</dict>
+</plist>
+`;
+}
+
+/**
+ * Xresources (xterm, urxvt, st and others reading X resources)
+ */
+function renderXresources(scheme: TerminalScheme): string {
+    return `${header(scheme, '!')}
+! Load it with: xrdb -merge ${scheme.slug}.Xresources
+
+*.foreground: ${scheme.foreground}
+*.background: ${scheme.background}
+*.cursorColor: ${scheme.cursor}
+
+${ansiList(scheme).map((color, index) => `*.color${index}: ${color}`).join('\n')}
+`;
+}
+
+export const SCHEME_FORMATS: Record<SchemeFormatId, SchemeFormat> = {
+    alacritty: {
+        label: 'Alacritty',
+        detail: 'TOML to import from alacritty.toml',
+        fileName: scheme => `${scheme.slug}.toml`,
+        render: renderAlacritty
+    },
+    kitty: {
+        label: 'Kitty',
+        detail: 'Config to include from kitty.conf',
+        fileName: scheme => `${scheme.slug}.conf`,
+        render: renderKitty
+    },
+    wezterm: {
+        label: 'WezTerm',
+        detail: 'Lua module for config.color_schemes',
+        fileName: scheme => `${scheme.slug}.lua`,
+        render: renderWezTerm
+    },
+    gnome: {
+        label: 'GNOME Terminal',
+        detail: 'Script adding a profile through dconf',
+        fileName: scheme => `${scheme.slug}.sh`,
+        render: renderGnome
+    },
+    windowsTerminal: {
+        label: 'Windows Terminal',
+        detail: 'JSON fragment with the color scheme',
+        fileName: scheme => `${scheme.slug}.json`,
+        render: renderWindowsTerminal
+    },
+    iterm2: {
+        label: 'iTerm2',
+        detail: '.itermcolors preset to import',
+        fileName: scheme => `${scheme.slug}.itermcolors`,
+        render: renderITerm2
+    },
+    xresources: {
+        label: 'Xresources',
+        detail: 'X resources for xterm, urxvt and st',
+        fileName: scheme => `${scheme.slug}.Xresources`,
+        render: renderXresources
+    }
+};
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { adoptLegacyBackups, createBackup, getBackupPath, listBackups, pruneBackups, restoreBackup } from '../../backups';
+
+const homeDirs: string[] = [];
+
+// Helper: A fresh home with a ~/.zshrc and its old .backup-<timestamp> copies
+function makeHome(legacyStamps: string[]): { storeDir: string; zshrc: string } {
+    const homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'colorful-carbon-test-'));
+    homeDirs.push(homeDir);
+    const zshrc = path.join(homeDir, '.zshrc');
+    fs.writeFileSync(zshrc, 'current\n');
+    legacyStamps.forEach(stamp => fs.writeFileSync(`${zshrc}.backup-${stamp}`, `${stamp}\n`));
+    return { storeDir: path.join(homeDir, 'backups'), zshrc };
+}
+
+teardown(() => {
+    homeDirs.splice(0).forEach(homeDir => fs.rmSync(homeDir, { recursive: true, force: true }));
+});
+
+suite('adoptLegacyBackups', () => {
+    test('old copies move into the store with their timestamps', () => {
+        const { storeDir, zshrc } = makeHome(['2024-11-21T10-15-00-000Z', '2024-12-01T08-00-30-500Z']);
+        fs.writeFileSync(`${zshrc}.backup-notes`, 'not a backup\n');
+
+        const adopted = adoptLegacyBackups(storeDir, [zshrc]);
+
+        assert.deepStrictEqual(adopted.map(entry => entry.createdAt).sort(),
+            ['2024-11-21T10:15:00.000Z', '2024-12-01T08:00:30.500Z']);
+        assert.ok(adopted.every(entry => entry.reason === 'legacy' && entry.sourcePath === zshrc));
+        assert.deepStrictEqual(fs.readdirSync(path.dirname(zshrc)).filter(file => file.startsWith('.zshrc')).sort(),
+            ['.zshrc', '.zshrc.backup-notes']);
+        assert.strictEqual(fs.readFileSync(getBackupPath(storeDir, listBackups(storeDir)[0]), 'utf8'),
+            '2024-12-01T08-00-30-500Z\n');
+    });
+
+    test('nothing to adopt leaves no store behind', () => {
+        const { storeDir, zshrc } = makeHome([]);
+        assert.deepStrictEqual(adoptLegacyBackups(storeDir, [zshrc, path.join(zshrc, 'missing', '.bashrc')]), []);
+        assert.strictEqual(fs.existsSync(storeDir), false);
+    });
+});
+
+suite('pruneBackups', () => {
+    const stamps = ['2024-01-01T00-00-00-000Z', '2024-06-01T00-00-00-000Z', '2024-12-01T00-00-00-000Z'];
+
+    test('keeps the newest backups per file', () => {
+        const { storeDir, zshrc } = makeHome(stamps);
+        adoptLegacyBackups(storeDir, [zshrc]);
+
+        const removed = pruneBackups(storeDir, { keep: 1 });
+
+        assert.deepStrictEqual(removed.map(entry => entry.createdAt), ['2024-06-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z']);
+        assert.deepStrictEqual(listBackups(storeDir).map(entry => entry.createdAt), ['2024-12-01T00:00:00.000Z']);
+        removed.forEach(entry => assert.strictEqual(fs.existsSync(getBackupPath(storeDir, entry)), false));
+    });
+
+    test('removes backups older than a number of days', () => {
+        const { storeDir, zshrc } = makeHome(stamps);
+        adoptLegacyBackups(storeDir, [zshrc]);
+
+        pruneBackups(storeDir, { olderThanDays: 30 }, new Date('2024-12-15T00:00:00.000Z'));
+
+        assert.deepStrictEqual(listBackups(storeDir).map(entry => entry.createdAt), ['2024-12-01T00:00:00.000Z']);
+    });
+});
+
+suite('restoreBackup', () => {
+    test('the replaced file is backed up first', () => {
+        const { storeDir, zshrc } = makeHome([]);
+        const entry = createBackup(storeDir, zshrc, 'setup', '1.0.0')!;
+        fs.writeFileSync(zshrc, 'edited\n');
+
+        const safetyBackup = restoreBackup(storeDir, entry, '1.0.0')!;
+
+        assert.strictEqual(fs.readFileSync(zshrc, 'utf8'), 'current\n');
+        assert.strictEqual(safetyBackup.reason, 'restore');
+        assert.strictEqual(fs.readFileSync(getBackupPath(storeDir, safetyBackup), 'utf8'), 'edited\n');
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { createCustomPalette, getCustomVariantId, getPalette } from '../../palette';
+
+suite('getCustomVariantId', () => {
+    test('slugs the name', () => {
+        assert.strictEqual(getCustomVariantId('Acme Corp'), 'custom-acme-corp');
+        assert.strictEqual(getCustomVariantId('Ünïcode'), 'custom-n-code');
+        assert.strictEqual(getCustomVariantId('日本'), 'custom-variant');
+    });
+
+    test('names with the same slug get a numbered id', () => {
+        const takenIds = new Set(['custom-acme', 'custom-acme-2']);
+        assert.strictEqual(getCustomVariantId('acme', takenIds), 'custom-acme-3');
+        assert.strictEqual(getCustomVariantId('日本', new Set(['custom-variant'])), 'custom-variant-2');
+    });
+});
+
+suite('createCustomPalette', () => {
+    const base = getPalette('dark-knight');
+
+    test('accents replace the base colors, keeping alpha suffixes', () => {
+        const palette = createCustomPalette({ name: 'Acme', base: 'dark-knight', accents: { primary: '#FF6B35', branch: '#4ECDC4' } }, base);
+        const baseColors = Object.assign({}, ...base.workbench.map(section => section.colors));
+        const colors = Object.assign({}, ...palette.workbench.map(section => section.colors));
+        const accentKeys = Object.keys(baseColors).filter(key => baseColors[key].slice(0, 7).toLowerCase() === base.accent.toLowerCase());
+
+        assert.strictEqual(palette.id, 'custom-acme');
+        assert.strictEqual(palette.base, 'dark-knight');
+        assert.strictEqual(palette.prompt.gitBranch, 'fg:#4ECDC4');
+        assert.strictEqual(palette.git.branch, '#4ECDC4 bold');
+        assert.ok(accentKeys.length > 0);
+        accentKeys.forEach(key => assert.strictEqual(colors[key], `#FF6B35${baseColors[key].slice(7)}`));
+    });
+
+    test('invalid colors are ignored', () => {
+        const palette = createCustomPalette({ name: 'Typo', base: 'dark-knight', accents: { branch: 'orange', primary: '#12345' } }, base);
+        assert.strictEqual(palette.accent, base.accent);
+        assert.deepStrictEqual(palette.git, base.git);
+        assert.deepStrictEqual(palette.workbench.map(section => section.colors), base.workbench.map(section => section.colors));
+    });
+
+    test('a variant defined after one with the same slug gets its own id', () => {
+        const first = createCustomPalette({ name: 'Acme', base: 'dark-knight' }, base);
+        const second = createCustomPalette({ name: 'acme', base: 'dark-knight' }, base, new Set([first.id]));
+        assert.notStrictEqual(second.id, first.id);
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { addInclude, getGlobalGitConfigPath, hasInclude, removeInclude, renderGitConfig } from '../../gitInclude';
+
+const INCLUDE_PATH = '~/.config/colorful-carbon/gitconfig';
+
+suite('renderGitConfig', () => {
+    test('groups keys by section and quotes values', () => {
+        const rendered = renderGitConfig([
+            ['color.status.branch', '#ff79c6 bold'],
+            ['color.status.added', 'green'],
+            ['color.ui', 'auto'],
+            ['alias.say', 'echo "hi"']
+        ], '# header');
+
+        assert.strictEqual(rendered, `# header
+[color "status"]
+\tbranch = "#ff79c6 bold"
+\tadded = "green"
+[color]
+\tui = "auto"
+[alias]
+\tsay = "echo \\"hi\\""
+`);
+    });
+});
+
+suite('include link', () => {
+    const userConfig = '[user]\n\tname = Me\n';
+
+    test('is appended once', () => {
+        const linked = addInclude(userConfig, INCLUDE_PATH);
+        assert.ok(linked.startsWith(userConfig));
+        assert.ok(hasInclude(linked, INCLUDE_PATH));
+        assert.strictEqual(addInclude(linked, INCLUDE_PATH), linked);
+    });
+
+    test('removing it restores the gitconfig', () => {
+        assert.strictEqual(removeInclude(addInclude(userConfig, INCLUDE_PATH), INCLUDE_PATH), userConfig);
+        assert.strictEqual(removeInclude(addInclude('[user]\n\tname = Me', INCLUDE_PATH), INCLUDE_PATH), '[user]\n\tname = Me\n');
+    });
+
+    test('another include path is left alone', () => {
+        const other = `${userConfig}[include]\n\tpath = ~/work.gitconfig\n`;
+        assert.strictEqual(hasInclude(other, INCLUDE_PATH), false);
+        assert.strictEqual(removeInclude(other, INCLUDE_PATH), other);
+    });
+});
+
+suite('getGlobalGitConfigPath', () => {
+    const homeConfig = path.join(os.homedir(), '.gitconfig');
+
+    test('~/.gitconfig unless only the XDG file exists', () => {
+        assert.strictEqual(getGlobalGitConfigPath(() => false), homeConfig);
+        assert.strictEqual(getGlobalGitConfigPath(() => true), homeConfig);
+        assert.notStrictEqual(getGlobalGitConfigPath(filePath => filePath !== homeConfig), homeConfig);
+    });
+});
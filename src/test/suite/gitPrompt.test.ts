@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import { getGitPromptScript, starshipStyleToSgr } from '../../gitPrompt';
+
+suite('starshipStyleToSgr', () => {
+    test('text styles, palette and true colors', () => {
+        assert.strictEqual(starshipStyleToSgr('bold fg:150'), '1;38;5;150');
+        assert.strictEqual(starshipStyleToSgr('fg:#8A6100 bg:236'), '38;2;138;97;0;48;5;236');
+    });
+
+    test('named and bright colors', () => {
+        assert.strictEqual(starshipStyleToSgr('red'), '31');
+        assert.strictEqual(starshipStyleToSgr('bg:bright-purple'), '105');
+    });
+
+    test('unknown words are skipped', () => {
+        assert.strictEqual(starshipStyleToSgr('blink italic fg:256 orange'), '3');
+        assert.strictEqual(starshipStyleToSgr(''), '');
+    });
+});
+
+suite('getGitPromptScript', () => {
+    const script = getGitPromptScript({ freshnessSeconds: 600, primaryRemote: 'origin', secondaryRemotes: ['upstream', 'fork'] });
+
+    test('the options become the script settings', () => {
+        assert.match(script, /^FRESHNESS=600$/m);
+        assert.match(script, /^PRIMARY_REMOTE='origin'$/m);
+        assert.match(script, /^SECONDARY_REMOTES='upstream fork'$/m);
+        assert.match(script, /^BUDGET=0\.3$/m);
+    });
+
+    test('the script parses as sh', () => {
+        const result = spawnSync('sh', ['-n'], { input: script, encoding: 'utf8' });
+        assert.strictEqual(result.stderr, '');
+        assert.strictEqual(result.status, 0);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import {
+    BLOCK_MARKERS,
+    findManagedBlock,
+    getBlockState,
+    removeManagedBlocks,
+    renderManagedBlock,
+    upsertManagedBlock
+} from '../../managedBlock';
+
+const BODY = 'export FOO=1\nalias gst="git status"';
+
+// Helper: An rc file with the block between the user's own lines
+function rcWith(block: string): string {
+    return `export PATH=$HOME/bin:$PATH\n\n${block}\n\nalias ll="ls -l"\n`;
+}
+
+suite('getBlockState', () => {
+    test('missing without a block', () => {
+        assert.strictEqual(getBlockState('export PATH=$HOME/bin:$PATH\n', 3), 'missing');
+    });
+
+    test('current at the shipped version', () => {
+        assert.strictEqual(getBlockState(rcWith(renderManagedBlock(BODY, 3)), 3), 'current');
+    });
+
+    test('outdated when pristine and older', () => {
+        assert.strictEqual(getBlockState(rcWith(renderManagedBlock(BODY, 2)), 3), 'outdated');
+    });
+
+    test('modified when edited and older', () => {
+        const edited = renderManagedBlock(BODY, 2).replace('FOO=1', 'FOO=2');
+        assert.strictEqual(getBlockState(rcWith(edited), 3), 'modified');
+    });
+
+    test('modified when edited at the shipped version', () => {
+        const edited = renderManagedBlock(BODY, 3).replace('FOO=1', 'FOO=2');
+        assert.strictEqual(getBlockState(rcWith(edited), 3), 'modified');
+    });
+
+    test('blocks written before stamping are pristine version 0', () => {
+        const legacy = [BLOCK_MARKERS.START, '# Added by Colorful Carbon VS Code Extension', BODY, BLOCK_MARKERS.END].join('\n');
+        assert.deepStrictEqual(findManagedBlock(rcWith(legacy)), { version: 0, pristine: true, text: legacy });
+        assert.strictEqual(getBlockState(rcWith(legacy), 3), 'outdated');
+    });
+});
+
+suite('managed block edits', () => {
+    test('upsert replaces the block in place', () => {
+        const upgraded = upsertManagedBlock(rcWith(renderManagedBlock(BODY, 2)), renderManagedBlock('export FOO=3', 3));
+        assert.strictEqual(upgraded, rcWith(renderManagedBlock('export FOO=3', 3)));
+    });
+
+    test('upsert appends to a file without a block', () => {
+        assert.strictEqual(upsertManagedBlock('', renderManagedBlock(BODY, 3)), `${renderManagedBlock(BODY, 3)}\n`);
+        assert.strictEqual(upsertManagedBlock('export A=1', 'BLOCK'), 'export A=1\n\nBLOCK\n');
+    });
+
+    test('remove leaves the rest of the file as it was', () => {
+        const original = 'export PATH=$HOME/bin:$PATH\n';
+        assert.strictEqual(removeManagedBlocks(upsertManagedBlock(original, renderManagedBlock(BODY, 3))), original);
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { PACKAGE_MANAGERS, PLUGIN_SHARE_DIRS, getInstallCommand, getPluginFileCandidates } from '../../packageManagers';
+
+const STARSHIP_INSTALLER = 'which starship >/dev/null 2>&1 || curl -sS https://starship.rs/install.sh | sh -s -- --yes';
+
+suite('getInstallCommand', () => {
+    test('packaged dependencies install in one command', () => {
+        const command = getInstallCommand(PACKAGE_MANAGERS.pacman, ['starship', 'fzf']);
+        assert.match(command, /pacman -S --needed --noconfirm starship fzf$/);
+    });
+
+    test('apt installs starship through its upstream installer', () => {
+        const command = getInstallCommand(PACKAGE_MANAGERS.apt, ['starship', 'fzf', 'zsh-autosuggestions']);
+        const [install, fallback] = command.split('; ');
+
+        assert.match(install, /apt-get install -y fzf zsh-autosuggestions$/);
+        assert.strictEqual(fallback, STARSHIP_INSTALLER);
+    });
+
+    test('only the fallback runs when nothing is packaged', () => {
+        assert.strictEqual(getInstallCommand(PACKAGE_MANAGERS.dnf, ['starship']), STARSHIP_INSTALLER);
+    });
+
+    test('Homebrew skips installed formulae', () => {
+        assert.strictEqual(getInstallCommand(PACKAGE_MANAGERS.brew, ['fzf', 'starship']),
+            'brew list fzf >/dev/null 2>&1 || brew install fzf && brew list starship >/dev/null 2>&1 || brew install starship');
+    });
+});
+
+suite('getPluginFileCandidates', () => {
+    test('one entry file per share directory, in search order', () => {
+        const candidates = getPluginFileCandidates('zsh-autosuggestions');
+        assert.strictEqual(candidates.length, PLUGIN_SHARE_DIRS.length);
+        assert.strictEqual(candidates[0], '/opt/homebrew/share/zsh-autosuggestions/zsh-autosuggestions.zsh');
+    });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { FolderDiagnosis, PromptReportContext, parseStarshipTimings, renderPromptReport, stripAnsi } from '../../promptDoctor';
+
+const CONTEXT: PromptReportContext = {
+    configPath: '/home/me/.config/starship.toml',
+    describeModule: name => name.startsWith('custom.') ? `theme [${name}]` : undefined
+};
+
+// Helper: A folder diagnosis where every step worked
+function diagnosisWith(changes: Partial<FolderDiagnosis>): FolderDiagnosis {
+    return { folder: '/work/repo', promptMs: 40, timings: [], explain: '', customModules: [], fetchHookMs: 5, ...changes };
+}
+
+suite('stripAnsi', () => {
+    test('colors and prompt escapes are removed', () => {
+        assert.strictEqual(stripAnsi('%{\x1b[1;38;5;150m%}main\\[\x1b[0m\\]'), 'main');
+    });
+});
+
+suite('parseStarshipTimings', () => {
+    test('durations in every unit', () => {
+        const output = [
+            'Here are the timings of modules in your prompt (>=1ms or output):',
+            ' git_status  -  12ms  -  "[+1]"',
+            ' nodejs      -  1.5s  -  "\x1b[32mv20\x1b[0m"',
+            ' directory   -  <1ms  -  "~/repo"',
+            ' character   -  800µs -  "❯"'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseStarshipTimings(output), [
+            { name: 'git_status', durationMs: 12, output: '[+1]' },
+            { name: 'nodejs', durationMs: 1500, output: 'v20' },
+            { name: 'directory', durationMs: 0, output: '~/repo' },
+            { name: 'character', durationMs: 0.8, output: '❯' }
+        ]);
+    });
+});
+
+suite('renderPromptReport', () => {
+    test('slow modules first and marked', () => {
+        const report = renderPromptReport([diagnosisWith({
+            timings: [
+                { name: 'directory', durationMs: 2, output: '~/repo' },
+                { name: 'git_status', durationMs: 120, output: '[+1]' }
+            ]
+        })], CONTEXT);
+
+        const rows = report.split('\n').filter(line => /^\| (directory|git_status) /.test(line));
+        assert.deepStrictEqual(rows, [
+            '| git_status | 🐢 **120ms** | starship defaults | `[+1]` |',
+            '| directory | 2ms | starship defaults | `~/repo` |'
+        ]);
+    });
+
+    test('line breaks, pipes and backticks stay inside their cell', () => {
+        const report = renderPromptReport([diagnosisWith({
+            timings: [{ name: 'custom.stack', durationMs: 3, output: 'a\\nb|`c`' }],
+            customModules: [{ name: 'stack', error: 'exit 1\r\nsh: `foo`: not found\n' }]
+        })], CONTEXT);
+
+        assert.ok(report.includes("| custom.stack | 3ms | theme [custom.stack] | `a b\\|'c'` |"));
+        assert.ok(report.includes("| custom.stack | failed: exit 1 sh: 'foo': not found | - | theme [custom.stack] |"));
+    });
+
+    test('failed steps are reported instead of their results', () => {
+        const report = renderPromptReport([diagnosisWith({ promptMs: undefined, timingsError: 'starship not found', fetchHookError: 'bash not found' })], CONTEXT);
+
+        assert.ok(report.includes('Whole prompt (`starship prompt`): -'));
+        assert.ok(report.includes('Could not run starship: starship not found'));
+        assert.ok(report.includes('Not measured: bash not found'));
+    });
+});
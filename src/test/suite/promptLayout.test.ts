@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { getPalette } from '../../palette';
+import { DEFAULT_PROMPT_LAYOUT, PromptLayout, normalizePromptModules, renderPromptFormat, renderToolModules } from '../../promptLayout';
+
+// Helper: The default layout with some settings changed
+function layoutWith(changes: Partial<PromptLayout>): PromptLayout {
+    return { ...DEFAULT_PROMPT_LAYOUT, ...changes };
+}
+
+suite('normalizePromptModules', () => {
+    test('unknown and repeated modules are dropped, order is kept', () => {
+        assert.deepStrictEqual(normalizePromptModules(['time', 'battery', 'rust', 'time', 'directory']), ['time', 'rust', 'directory']);
+    });
+});
+
+suite('renderPromptFormat', () => {
+    test('the git helper is a custom module and the character ends its own line', () => {
+        assert.strictEqual(renderPromptFormat(layoutWith({ modules: ['directory', 'git_prompt'] })),
+            'format = """\n$directory\\\n${custom.git_prompt}\\\n$line_break\\\n$character"""');
+    });
+
+    test('one line without the line break', () => {
+        assert.strictEqual(renderPromptFormat(layoutWith({ modules: ['time'], twoLine: false })), 'format = """\n$time\\\n$character"""');
+    });
+});
+
+suite('renderToolModules', () => {
+    const colors = getPalette('default').prompt;
+
+    test('no tables for the default layout', () => {
+        assert.deepStrictEqual(renderToolModules(DEFAULT_PROMPT_LAYOUT, colors), []);
+    });
+
+    test('listed tools get a table in the palette color, in a fixed order', () => {
+        const tables = renderToolModules(layoutWith({ modules: ['kubernetes', 'directory', 'rust'] }), colors);
+
+        assert.deepStrictEqual(tables.map(table => table.split('\n')[0]), ['[rust]', '[kubernetes]']);
+        assert.ok(tables[0].includes(`style = "bold ${colors.rust}"`));
+        assert.ok(tables[1].includes('disabled = false'));
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+    DEFAULT_SMART_FETCH_POLICY,
+    LOCK_GRACE_SECONDS,
+    STALE_LOCK_SECONDS,
+    SmartFetchPolicy,
+    acquireFetchLock,
+    getFetchArgs,
+    getFetchCacheFile,
+    isLockStale,
+    isRepositoryIncluded,
+    isValidRemoteName,
+    releaseFetchLock
+} from '../../smartFetch';
+
+const homeDirs: string[] = [];
+
+// Helper: A cache file in a fresh temporary home
+function makeCacheFile(): string {
+    const homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'colorful-carbon-test-'));
+    homeDirs.push(homeDir);
+    const cacheFile = getFetchCacheFile(homeDir, '/work/repo');
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    return cacheFile;
+}
+
+// Helper: Write a lock file, last modified at `modifiedAt` (ms)
+function writeLock(cacheFile: string, content: string, modifiedAt: number): void {
+    fs.writeFileSync(`${cacheFile}.lock`, content);
+    fs.utimesSync(`${cacheFile}.lock`, modifiedAt / 1000, modifiedAt / 1000);
+}
+
+// Helper: The default policy with some settings changed
+function policyWith(changes: Partial<SmartFetchPolicy>): SmartFetchPolicy {
+    return { ...DEFAULT_SMART_FETCH_POLICY, ...changes };
+}
+
+teardown(() => {
+    homeDirs.splice(0).forEach(homeDir => fs.rmSync(homeDir, { recursive: true, force: true }));
+});
+
+suite('getFetchArgs', () => {
+    test('all remotes by default', () => {
+        assert.deepStrictEqual(getFetchArgs(DEFAULT_SMART_FETCH_POLICY), ['fetch', '--quiet', '--all', '--prune', '--tags']);
+    });
+
+    test('named remotes only, invalid names dropped', () => {
+        assert.deepStrictEqual(getFetchArgs(policyWith({ remotes: ['origin', '--upload-pack=x', 'up stream'], prune: false, tags: false })),
+            ['fetch', '--quiet', '--multiple', 'origin']);
+        assert.strictEqual(isValidRemoteName('upstream/fork'), true);
+    });
+});
+
+suite('isLockStale', () => {
+    const now = Date.now();
+
+    test('no lock is not stale', () => {
+        assert.strictEqual(isLockStale(makeCacheFile(), now), false);
+    });
+
+    test('a lock without a PID is kept during the grace period', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, '', now);
+        assert.strictEqual(isLockStale(cacheFile, now), false);
+        assert.strictEqual(isLockStale(cacheFile, now + (LOCK_GRACE_SECONDS - 1) * 1000), false);
+    });
+
+    test('a lock without a PID is stale after the grace period', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, '', now - LOCK_GRACE_SECONDS * 1000);
+        assert.strictEqual(isLockStale(cacheFile, now), true);
+    });
+
+    test('a lock of a live process is kept', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, `${process.pid} ${Math.floor(now / 1000)}\n`, now);
+        assert.strictEqual(isLockStale(cacheFile, now), false);
+    });
+
+    test('a lock of a dead process is stale', () => {
+        const cacheFile = makeCacheFile();
+        const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+        writeLock(cacheFile, `${deadPid} ${Math.floor(now / 1000)}\n`, now);
+        assert.strictEqual(isLockStale(cacheFile, now), true);
+    });
+
+    test('a lock older than the stale limit is stale', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, `${process.pid} ${Math.floor(now / 1000) - STALE_LOCK_SECONDS}\n`, now);
+        assert.strictEqual(isLockStale(cacheFile, now), true);
+    });
+
+    test('a live lock without a start time ages by its file', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, `${process.pid}\n`, now);
+        assert.strictEqual(isLockStale(cacheFile, now), false);
+        assert.strictEqual(isLockStale(cacheFile, now + STALE_LOCK_SECONDS * 1000), true);
+    });
+});
+
+suite('acquireFetchLock', () => {
+    test('only one holder at a time', () => {
+        const cacheFile = makeCacheFile();
+        assert.strictEqual(acquireFetchLock(cacheFile), true);
+        assert.strictEqual(acquireFetchLock(cacheFile), false);
+        releaseFetchLock(cacheFile);
+        assert.strictEqual(acquireFetchLock(cacheFile), true);
+    });
+
+    test('a stale lock is reclaimed', () => {
+        const cacheFile = makeCacheFile();
+        writeLock(cacheFile, '', Date.now() - LOCK_GRACE_SECONDS * 1000);
+        assert.strictEqual(acquireFetchLock(cacheFile), true);
+        assert.match(fs.readFileSync(`${cacheFile}.lock`, 'utf8'), new RegExp(`^${process.pid} \\d+\\n$`));
+    });
+});
+
+suite('isRepositoryIncluded', () => {
+    const included = (include: string[], exclude: string[], repoRoot: string) =>
+        isRepositoryIncluded(policyWith({ include, exclude }), repoRoot, '/home/me');
+
+    test('everything is included without include globs', () => {
+        assert.strictEqual(included([], [], '/work/repo'), true);
+    });
+
+    test('* crosses directories and ~ is the home directory', () => {
+        assert.strictEqual(included(['~/code/*'], [], '/home/me/code/team/repo'), true);
+        assert.strictEqual(included(['~/code/*'], [], '/work/repo'), false);
+    });
+
+    test('exclude wins over include', () => {
+        assert.strictEqual(included(['~/*'], ['*/vendor/*'], '/home/me/app/vendor/lib'), false);
+    });
+
+    test('character classes and ? match like the shell', () => {
+        assert.strictEqual(included(['/work/[a-c]pp?'], [], '/work/bpp1'), true);
+        assert.strictEqual(included(['/work/[!a-c]*'], [], '/work/bpp1'), false);
+    });
+
+    test('regular expression characters match themselves', () => {
+        assert.strictEqual(included(['/work/a.b+(c)'], [], '/work/a.b+(c)'), true);
+        assert.strictEqual(included(['/work/a.b'], [], '/work/axb'), false);
+    });
+
+    test('an invalid class matches itself instead of throwing', () => {
+        assert.strictEqual(included(['/work/[z-a]*'], [], '/work/[z-a]repo'), true);
+        assert.strictEqual(included([], ['/work/[z-a]'], '/work/repo'), true);
+    });
+});
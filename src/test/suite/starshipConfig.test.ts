@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { getTableNames, layerStarshipConfig, subtractStarshipConfig } from '../../starshipConfig';
+
+const GENERATED = `format = "$directory$git_branch"
+
+[directory]
+style = "bold cyan"
+truncation_length = 3
+
+[git_branch]
+style = "bold purple"
+`;
+
+suite('layerStarshipConfig', () => {
+    test('user keys replace generated keys, the rest of the table stays', () => {
+        const layered = layerStarshipConfig(GENERATED, '[directory]\nstyle = "bold red"\n', '# header');
+        assert.strictEqual(layered, `# header
+
+format = "$directory$git_branch"
+
+[directory]
+truncation_length = 3
+style = "bold red"
+
+[git_branch]
+style = "bold purple"
+`);
+    });
+
+    test('user-only tables and comments are copied byte for byte', () => {
+        const user = `# my battery
+[battery]
+disabled = false # keep it
+`;
+        const layered = layerStarshipConfig(GENERATED, user, '# header');
+        assert.ok(layered.endsWith(`[git_branch]\nstyle = "bold purple"\n\n${user}`), layered);
+    });
+
+    test('multi-line values stay whole', () => {
+        const user = '[custom.hello]\ncommand = """\necho [not a table]\n"""\n';
+        const layered = layerStarshipConfig(GENERATED, user, '# header');
+        assert.deepStrictEqual(getTableNames(layered), ['directory', 'git_branch', 'custom.hello']);
+        assert.ok(layered.includes(user), layered);
+    });
+});
+
+suite('subtractStarshipConfig', () => {
+    test('entries matching a generated config are removed', () => {
+        const oldFile = `${GENERATED}\n[battery]\ndisabled = false\n`;
+        assert.strictEqual(subtractStarshipConfig(oldFile, [GENERATED]), '[battery]\ndisabled = false');
+    });
+
+    test('changed entries are kept as the user layer', () => {
+        const oldFile = GENERATED.replace('bold purple', 'bold green');
+        assert.strictEqual(subtractStarshipConfig(oldFile, [GENERATED]), '[git_branch]\nstyle = "bold green"');
+    });
+});
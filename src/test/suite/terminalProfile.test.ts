@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import { PROFILE_FILES, getZdotdirShim, getZshProfileOptions } from '../../terminalProfile';
+
+const PROFILE_DIR = "/home/me/it's profile";
+
+suite('getZdotdirShim', () => {
+    const shim = getZdotdirShim(PROFILE_DIR);
+
+    test('one shim per zsh startup file', () => {
+        assert.deepStrictEqual(Object.keys(shim), ['.zshenv', '.zprofile', '.zshrc', '.zlogin']);
+    });
+
+    test('only the .zshrc shim sources the block, quoted for zsh', () => {
+        assert.ok(shim['.zshrc'].includes(`source '/home/me/it'\\''s profile/${PROFILE_FILES.BLOCK}'`));
+        assert.ok(!shim['.zprofile'].includes('source \''));
+    });
+
+    test('only the .zshenv shim remembers where the user moved ZDOTDIR', () => {
+        assert.ok(shim['.zshenv'].includes('COLORFUL_CARBON_ZDOTDIR=$ZDOTDIR'));
+        assert.ok(!shim['.zlogin'].includes('COLORFUL_CARBON_ZDOTDIR=$ZDOTDIR'));
+    });
+
+    test('the shim sources the user\'s file and points ZDOTDIR back at itself', () => {
+        const result = spawnSync('bash', ['-c', 'HOME=/nonexistent; eval "$(cat)"; echo "$ZDOTDIR"'], { input: shim['.zlogin'], encoding: 'utf8' });
+        assert.strictEqual(result.stdout, `${PROFILE_DIR}/${PROFILE_FILES.ZDOTDIR}\n`);
+    });
+});
+
+suite('getZshProfileOptions', () => {
+    const savedCount = process.env.GIT_CONFIG_COUNT;
+
+    teardown(() => {
+        if (savedCount === undefined) {
+            delete process.env.GIT_CONFIG_COUNT;
+        } else {
+            process.env.GIT_CONFIG_COUNT = savedCount;
+        }
+    });
+
+    test('git colors are the first command-line config entry', () => {
+        delete process.env.GIT_CONFIG_COUNT;
+        const env = getZshProfileOptions(PROFILE_DIR, 'dark-knight', '/tmp/theme').env ?? {};
+
+        assert.strictEqual(env.GIT_CONFIG_COUNT, '1');
+        assert.strictEqual(env.GIT_CONFIG_KEY_0, 'include.path');
+        assert.strictEqual(env.GIT_CONFIG_VALUE_0, `${PROFILE_DIR}/${PROFILE_FILES.GIT_COLORS}`);
+        assert.strictEqual(env.STARSHIP_CONFIG, `${PROFILE_DIR}/${PROFILE_FILES.VARIANTS_DIR}/dark-knight.starship.toml`);
+    });
+
+    test('entries the user already exports are kept', () => {
+        process.env.GIT_CONFIG_COUNT = '2';
+        const env = getZshProfileOptions(PROFILE_DIR, 'dark-knight', '/tmp/theme').env ?? {};
+
+        assert.strictEqual(env.GIT_CONFIG_COUNT, '3');
+        assert.strictEqual(env.GIT_CONFIG_KEY_2, 'include.path');
+        assert.strictEqual(env.GIT_CONFIG_KEY_0, undefined);
+    });
+});
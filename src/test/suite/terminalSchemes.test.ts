@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { PALETTES } from '../../palette';
+import { SCHEME_FORMATS, SchemeFormatId, getTerminalScheme } from '../../terminalSchemes';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/;
+
+suite('getTerminalScheme', () => {
+    PALETTES.forEach(palette => {
+        test(`${palette.name} has solid lowercase colors`, () => {
+            const scheme = getTerminalScheme(palette);
+            const colors = [scheme.background, scheme.foreground, scheme.cursor, scheme.cursorText, ...Object.values(scheme.ansi)];
+
+            assert.strictEqual(Object.keys(scheme.ansi).length, 16);
+            colors.forEach(color => assert.match(color, HEX_COLOR));
+            assert.match(scheme.slug, /^[a-z0-9]+(-[a-z0-9]+)*$/);
+        });
+    });
+});
+
+suite('scheme formats', () => {
+    const scheme = getTerminalScheme(PALETTES[0]);
+
+    (Object.keys(SCHEME_FORMATS) as SchemeFormatId[]).forEach(id => {
+        test(`${SCHEME_FORMATS[id].label} names the variant and holds every color`, () => {
+            const rendered = SCHEME_FORMATS[id].render(scheme).toLowerCase();
+            assert.ok(SCHEME_FORMATS[id].fileName(scheme).startsWith(scheme.slug));
+            assert.ok(rendered.includes(scheme.name.toLowerCase()));
+            if (id !== 'iterm2') {
+                // iTerm2 stores color components, not hex strings
+                [scheme.background, scheme.foreground, ...Object.values(scheme.ansi)]
+                    .forEach(color => assert.ok(rendered.includes(color.slice(1)), `${id} is missing ${color}`));
+            }
+        });
+    });
+
+    test('Windows Terminal fragment is JSON', () => {
+        const fragment = JSON.parse(SCHEME_FORMATS.windowsTerminal.render(scheme));
+        assert.ok(JSON.stringify(fragment).includes(scheme.background));
+    });
+});
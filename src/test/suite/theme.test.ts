@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PALETTES, getPalette, renderThemeFile } from '../../palette';
+
+// The default theme as released before the palettes - its users must see no change
+const GOLDEN_DEFAULT_THEME = path.join(__dirname, '..', '..', '..', 'src', 'test', 'fixtures', 'colorful-carbon.json');
+
+suite('renderThemeFile', () => {
+    test('the default theme is byte-identical to the released one', () => {
+        assert.strictEqual(renderThemeFile(getPalette('default')), fs.readFileSync(GOLDEN_DEFAULT_THEME, 'utf8'));
+    });
+
+    test('every variant renders as JSON once its comments are stripped', () => {
+        PALETTES.forEach(palette => {
+            const theme = JSON.parse(renderThemeFile(palette).replace(/^\s*\/\/.*$/gm, ''));
+            assert.strictEqual(theme.name, palette.name);
+            assert.strictEqual(theme.colors['terminal.background'], palette.workbench
+                .map(section => section.colors['terminal.background'])
+                .find(color => color !== undefined));
+        });
+    });
+});